@@ -1,19 +1,30 @@
-import type { ConnectionState } from '../types/connection.js';
+import type { ConnectionDetails, ConnectionState } from '../types/connection.js';
 
 type StateTransition = {
   from: ConnectionState | ConnectionState[];
   to: ConnectionState;
 };
 
+type ConnectionChangeListener = (state: ConnectionState, details: ConnectionDetails) => void;
+
 const VALID_TRANSITIONS: StateTransition[] = [
   { from: 'disconnected', to: 'connecting' },
   { from: 'connecting', to: 'connected' },
   { from: 'connecting', to: 'disconnected' },
   { from: 'connecting', to: 'error' },
   { from: 'connected', to: 'disconnected' },
+  { from: 'connected', to: 'reconnecting' },
+  { from: 'connected', to: 'failed' },
   { from: 'connected', to: 'error' },
+  { from: 'reconnecting', to: 'connecting' },
+  { from: 'reconnecting', to: 'disconnected' },
+  { from: 'reconnecting', to: 'failed' },
   { from: 'error', to: 'connecting' },
   { from: 'error', to: 'disconnected' },
+  { from: 'error', to: 'reconnecting' },
+  { from: 'error', to: 'failed' },
+  { from: 'failed', to: 'connecting' },
+  { from: 'failed', to: 'disconnected' },
 ];
 
 /**
@@ -21,7 +32,13 @@ const VALID_TRANSITIONS: StateTransition[] = [
  */
 export class ConnectionStateMachine {
   private _state: ConnectionState = 'disconnected';
-  private listeners: Set<(state: ConnectionState) => void> = new Set();
+  private _details: ConnectionDetails = {
+    attempt: 0,
+    nextRetryAt: null,
+    lastError: null,
+    lastCloseCode: null,
+  };
+  private listeners: Set<ConnectionChangeListener> = new Set();
 
   /**
    * Get current connection state
@@ -30,6 +47,13 @@ export class ConnectionStateMachine {
     return this._state;
   }
 
+  /**
+   * Get details of the current state
+   */
+  get details(): ConnectionDetails {
+    return { ...this._details };
+  }
+
   /**
    * Check if currently in a specific state
    */
@@ -66,12 +90,37 @@ export class ConnectionStateMachine {
   }
 
   /**
-   * Transition to a new state
+   * Check if waiting to reconnect
+   */
+  get isReconnecting(): boolean {
+    return this._state === 'reconnecting';
+  }
+
+  /**
+   * Check if reconnecting gave up
+   */
+  get isFailed(): boolean {
+    return this._state === 'failed';
+  }
+
+  /**
+   * Transition to a new state, updating its details
+   *
+   * `nextRetryAt` is cleared unless the update sets it. Updating the details of the current
+   * state notifies listeners if anything changed.
    * @returns true if transition was successful
    */
-  transition(to: ConnectionState): boolean {
+  transition(to: ConnectionState, update: Partial<ConnectionDetails> = {}): boolean {
     if (this._state === to) {
-      return true; // Already in target state
+      // Already in target state
+      const details = { ...this._details, nextRetryAt: null, ...update };
+      const changed = (Object.keys(details) as (keyof ConnectionDetails)[])
+        .some((key) => details[key] !== this._details[key]);
+      if (changed) {
+        this._details = details;
+        this.notify();
+      }
+      return true;
     }
 
     const isValid = VALID_TRANSITIONS.some((t) => {
@@ -85,15 +134,8 @@ export class ConnectionStateMachine {
     }
 
     this._state = to;
-
-    // Notify listeners
-    this.listeners.forEach((listener) => {
-      try {
-        listener(to);
-      } catch (error) {
-        console.error('Error in connection state listener:', error);
-      }
-    });
+    this._details = { ...this._details, nextRetryAt: null, ...update };
+    this.notify();
 
     return true;
   }
@@ -107,15 +149,8 @@ export class ConnectionStateMachine {
     }
 
     this._state = to;
-
-    // Notify listeners
-    this.listeners.forEach((listener) => {
-      try {
-        listener(to);
-      } catch (error) {
-        console.error('Error in connection state listener:', error);
-      }
-    });
+    this._details = { ...this._details, nextRetryAt: null };
+    this.notify();
   }
 
   /**
@@ -128,7 +163,7 @@ export class ConnectionStateMachine {
   /**
    * Subscribe to state changes
    */
-  onChange(listener: (state: ConnectionState) => void): () => void {
+  onChange(listener: ConnectionChangeListener): () => void {
     this.listeners.add(listener);
     return () => this.listeners.delete(listener);
   }
@@ -139,4 +174,15 @@ export class ConnectionStateMachine {
   removeAllListeners(): void {
     this.listeners.clear();
   }
+
+  private notify(): void {
+    const details = this.details;
+    this.listeners.forEach((listener) => {
+      try {
+        listener(this._state, details);
+      } catch (error) {
+        console.error('Error in connection state listener:', error);
+      }
+    });
+  }
 }
@@ -12,6 +12,12 @@ export interface HeartbeatOptions {
 
   /** Timeout for pong response (default: interval * 2) */
   pongTimeout?: number;
+
+  /** Function called once when a pong is overdue but has not yet timed out */
+  onLate?: () => void;
+
+  /** Time after a ping at which its pong counts as late (default: no late detection) */
+  lateAfter?: number;
 }
 
 /**
@@ -20,10 +26,14 @@ export interface HeartbeatOptions {
 export class Heartbeat {
   private intervalId: ReturnType<typeof setInterval> | null = null;
   private timeoutId: ReturnType<typeof setTimeout> | null = null;
+  private lateTimeoutId: ReturnType<typeof setTimeout> | null = null;
   private readonly interval: number;
   private readonly pongTimeout: number;
+  private readonly lateAfter?: number;
   private readonly onPing: () => void;
   private readonly onTimeout?: () => void;
+  private readonly onLate?: () => void;
+  private pingSentAt: number | null = null;
   private running = false;
 
   constructor(options: HeartbeatOptions) {
@@ -31,6 +41,8 @@ export class Heartbeat {
     this.pongTimeout = options.pongTimeout ?? this.interval * 2;
     this.onPing = options.onPing;
     this.onTimeout = options.onTimeout;
+    this.lateAfter = options.lateAfter;
+    this.onLate = options.onLate;
   }
 
   /**
@@ -55,19 +67,20 @@ export class Heartbeat {
 
   /**
    * Called when a pong is received
+   * @returns Round-trip time of the answered ping in milliseconds, or null if no ping was outstanding
    */
-  receivedPong(): void {
+  receivedPong(): number | null {
     if (!this.running) {
-      return;
+      return null;
     }
 
-    // Clear the timeout and schedule next ping
-    if (this.timeoutId !== null) {
-      clearTimeout(this.timeoutId);
-      this.timeoutId = null;
-    }
+    const rtt = this.pingSentAt === null ? null : Date.now() - this.pingSentAt;
 
+    // Clear the timeouts and schedule next ping
+    this.clearTimers();
     this.scheduleNextPing();
+
+    return rtt;
   }
 
   /**
@@ -93,8 +106,17 @@ export class Heartbeat {
       }
 
       // Send ping
+      this.pingSentAt = Date.now();
       this.onPing();
 
+      if (this.onLate && this.lateAfter !== undefined && this.lateAfter < this.pongTimeout) {
+        this.lateTimeoutId = setTimeout(() => {
+          if (this.running) {
+            this.onLate?.();
+          }
+        }, this.lateAfter);
+      }
+
       // Set timeout for pong
       this.timeoutId = setTimeout(() => {
         if (this.running && this.onTimeout) {
@@ -114,5 +136,12 @@ export class Heartbeat {
       clearTimeout(this.timeoutId);
       this.timeoutId = null;
     }
+
+    if (this.lateTimeoutId !== null) {
+      clearTimeout(this.lateTimeoutId);
+      this.lateTimeoutId = null;
+    }
+
+    this.pingSentAt = null;
   }
 }
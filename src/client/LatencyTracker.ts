@@ -0,0 +1,130 @@
+import type { ConnectionQuality, LatencyStats, LatencyThresholds } from '../types/connection.js';
+
+export interface LatencyTrackerOptions {
+  /** Number of recent round-trip times kept */
+  windowSize: number;
+
+  /** Round-trip times at which the quality becomes degraded or poor */
+  thresholds: LatencyThresholds;
+
+  /** Called whenever the connection quality changes */
+  onQualityChange: (quality: ConnectionQuality) => void;
+}
+
+/**
+ * Keeps recent heartbeat round-trip times and derives the connection quality from them
+ *
+ * Quality follows the 95th percentile of the recent round-trip times. An overdue pong marks the
+ * connection poor until the next pong arrives.
+ */
+export class LatencyTracker {
+  private readonly windowSize: number;
+  private readonly thresholds: LatencyThresholds;
+  private readonly onQualityChange: (quality: ConnectionQuality) => void;
+  private samples: number[] = [];
+  private late = false;
+  private clockOffset: number | null = null;
+  private currentQuality: ConnectionQuality = 'good';
+
+  constructor(options: LatencyTrackerOptions) {
+    this.windowSize = options.windowSize;
+    this.thresholds = options.thresholds;
+    this.onQualityChange = options.onQualityChange;
+  }
+
+  /**
+   * Current connection quality
+   */
+  get quality(): ConnectionQuality {
+    return this.currentQuality;
+  }
+
+  /**
+   * Record the round-trip time of a ping
+   * @param serverTime - Server timestamp carried by the pong, used to refine the clock offset
+   */
+  record(rtt: number, serverTime?: number): void {
+    this.samples.push(rtt);
+    if (this.samples.length > this.windowSize) {
+      this.samples.shift();
+    }
+    this.late = false;
+
+    // The server stamped the pong about half a round trip ago
+    if (serverTime !== undefined) {
+      this.clockOffset = serverTime + rtt / 2 - Date.now();
+    }
+
+    this.updateQuality();
+  }
+
+  /**
+   * Mark the outstanding ping as late
+   */
+  markLate(): void {
+    this.late = true;
+    this.updateQuality();
+  }
+
+  /**
+   * Estimate the clock offset from a server timestamp received just now
+   */
+  syncClock(serverTime: number): void {
+    const average = this.average();
+    this.clockOffset = serverTime + (average ?? 0) / 2 - Date.now();
+  }
+
+  /**
+   * Forget the round-trip times of a previous connection
+   */
+  reset(): void {
+    this.samples = [];
+    this.late = false;
+    this.updateQuality();
+  }
+
+  /**
+   * Get the recent round-trip time statistics
+   */
+  getStats(): LatencyStats {
+    return {
+      last: this.samples[this.samples.length - 1] ?? null,
+      average: this.average(),
+      p95: this.percentile(0.95),
+      samples: this.samples.length,
+      clockOffset: this.clockOffset,
+    };
+  }
+
+  private average(): number | null {
+    if (this.samples.length === 0) {
+      return null;
+    }
+
+    return this.samples.reduce((sum, rtt) => sum + rtt, 0) / this.samples.length;
+  }
+
+  private percentile(fraction: number): number | null {
+    if (this.samples.length === 0) {
+      return null;
+    }
+
+    const sorted = [...this.samples].sort((a, b) => a - b);
+    return sorted[Math.ceil(fraction * sorted.length) - 1] ?? null;
+  }
+
+  private updateQuality(): void {
+    const p95 = this.percentile(0.95) ?? 0;
+    let quality: ConnectionQuality = 'good';
+    if (this.late || p95 >= this.thresholds.poor) {
+      quality = 'poor';
+    } else if (p95 >= this.thresholds.degraded) {
+      quality = 'degraded';
+    }
+
+    if (quality !== this.currentQuality) {
+      this.currentQuality = quality;
+      this.onQualityChange(quality);
+    }
+  }
+}
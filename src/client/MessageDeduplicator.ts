@@ -0,0 +1,114 @@
+import type { Message } from '../types/message.js';
+
+export interface MessageDeduplicatorOptions {
+  /** Maximum number of message IDs remembered per channel (0 disables deduplication) */
+  maxSize: number;
+
+  /** How long a message ID is remembered, in milliseconds */
+  maxAge: number;
+}
+
+/**
+ * Drops messages already delivered on a channel within a bounded window
+ *
+ * Each channel remembers its most recent message IDs, capped by count and age.
+ */
+export class MessageDeduplicator {
+  private readonly maxSize: number;
+  private readonly maxAge: number;
+  /** Message ID -> time first seen, in insertion (and therefore time) order */
+  private windows: Map<string, Map<string, number>> = new Map();
+  private dropped = 0;
+
+  constructor(options: MessageDeduplicatorOptions) {
+    this.maxSize = options.maxSize;
+    this.maxAge = options.maxAge;
+  }
+
+  /**
+   * Record a message, returning true if it was already seen within the window
+   */
+  isDuplicate(message: Message): boolean {
+    if (this.wasSeen(message)) {
+      return true;
+    }
+    this.record(message);
+    return false;
+  }
+
+  /**
+   * Check if a message was recorded within the window without recording it, counting it as dropped if so
+   */
+  wasSeen(message: Message): boolean {
+    const window = this.windows.get(message.channel);
+    if (this.maxSize <= 0 || !window) {
+      return false;
+    }
+
+    this.prune(window, Date.now());
+    if (window.has(message.id)) {
+      this.dropped++;
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Remember a message as seen
+   */
+  record(message: Message): void {
+    if (this.maxSize <= 0) {
+      return;
+    }
+
+    let window = this.windows.get(message.channel);
+    if (!window) {
+      window = new Map();
+      this.windows.set(message.channel, window);
+    }
+
+    const now = Date.now();
+    this.prune(window, now);
+    if (window.has(message.id)) {
+      return;
+    }
+
+    window.set(message.id, now);
+    if (window.size > this.maxSize) {
+      const oldest = window.keys().next().value;
+      if (oldest !== undefined) {
+        window.delete(oldest);
+      }
+    }
+  }
+
+  /**
+   * Forget the window for a channel (e.g., after unsubscribing)
+   */
+  forget(channel: string): void {
+    this.windows.delete(channel);
+  }
+
+  /**
+   * Total number of duplicates dropped
+   */
+  get droppedCount(): number {
+    return this.dropped;
+  }
+
+  /**
+   * Forget all windows
+   */
+  clear(): void {
+    this.windows.clear();
+  }
+
+  private prune(window: Map<string, number>, now: number): void {
+    for (const [id, seenAt] of window) {
+      if (now - seenAt < this.maxAge) {
+        break;
+      }
+      window.delete(id);
+    }
+  }
+}
@@ -0,0 +1,117 @@
+import type { NetworkStatusSource } from '../types/connection.js';
+
+export interface NetworkMonitorOptions {
+  /** Status source (default: browser globals, if available) */
+  source?: NetworkStatusSource;
+
+  /** Called when the network goes offline */
+  onOffline: () => void;
+
+  /** Called when the network comes back */
+  onOnline: () => void;
+
+  /** Called when the page becomes hidden */
+  onHidden: () => void;
+
+  /** Called when the page becomes visible again */
+  onVisible: () => void;
+}
+
+/**
+ * Network and page-visibility status from browser globals
+ * @returns undefined outside browsers
+ */
+export function createBrowserNetworkStatus(): NetworkStatusSource | undefined {
+  if (typeof window === 'undefined' || typeof document === 'undefined') {
+    return undefined;
+  }
+
+  return {
+    isOnline: () => typeof navigator === 'undefined' || navigator.onLine !== false,
+    isVisible: () => document.visibilityState !== 'hidden',
+    subscribe: (listener) => {
+      window.addEventListener('online', listener);
+      window.addEventListener('offline', listener);
+      document.addEventListener('visibilitychange', listener);
+      return () => {
+        window.removeEventListener('online', listener);
+        window.removeEventListener('offline', listener);
+        document.removeEventListener('visibilitychange', listener);
+      };
+    },
+  };
+}
+
+/**
+ * Watches network and visibility status, reporting each transition once
+ */
+export class NetworkMonitor {
+  private readonly source?: NetworkStatusSource;
+  private readonly options: NetworkMonitorOptions;
+  private online = true;
+  private visible = true;
+  private stopListening: (() => void) | null = null;
+
+  constructor(options: NetworkMonitorOptions) {
+    this.options = options;
+    this.source = options.source;
+  }
+
+  /**
+   * Whether the network was reachable at the last check
+   */
+  get isOnline(): boolean {
+    return this.online;
+  }
+
+  /**
+   * Whether the page was visible at the last check
+   */
+  get isVisible(): boolean {
+    return this.visible;
+  }
+
+  /**
+   * Start listening for changes
+   */
+  start(): void {
+    if (!this.source || this.stopListening) {
+      return;
+    }
+
+    this.online = this.source.isOnline();
+    this.visible = this.source.isVisible();
+    this.stopListening = this.source.subscribe(() => this.check());
+  }
+
+  /**
+   * Stop listening for changes
+   */
+  stop(): void {
+    this.stopListening?.();
+    this.stopListening = null;
+  }
+
+  private check(): void {
+    const online = this.source!.isOnline();
+    const visible = this.source!.isVisible();
+
+    if (online !== this.online) {
+      this.online = online;
+      if (online) {
+        this.options.onOnline();
+      } else {
+        this.options.onOffline();
+      }
+    }
+
+    if (visible !== this.visible) {
+      this.visible = visible;
+      if (visible) {
+        this.options.onVisible();
+      } else {
+        this.options.onHidden();
+      }
+    }
+  }
+}
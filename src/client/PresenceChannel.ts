@@ -0,0 +1,147 @@
+import { TypedEventEmitter } from '../utils/EventEmitter.js';
+import { WS_CLIENT_MESSAGES, ERROR_CODES } from '../utils/constants.js';
+import { PushFloError } from '../errors/PushFloError.js';
+import type { PresenceAction, PresenceMember } from '../types/presence.js';
+import type { WsClientMessage, WsServerMessage } from '../types/api.js';
+
+interface PresenceChannelEvents {
+  [key: string]: unknown[];
+  enter: [PresenceMember];
+  leave: [PresenceMember];
+  update: [PresenceMember];
+  sync: [PresenceMember[]];
+}
+
+/**
+ * Presence on a single channel: who is here, and our own membership
+ */
+export class PresenceChannel extends TypedEventEmitter<PresenceChannelEvents> {
+  /** Channel slug */
+  readonly channel: string;
+
+  private readonly send: (message: WsClientMessage) => boolean;
+  private readonly memberMap: Map<string, PresenceMember> = new Map();
+  private entered = false;
+  private data: Record<string, unknown> = {};
+
+  constructor(channel: string, send: (message: WsClientMessage) => boolean) {
+    super();
+    this.channel = channel;
+    this.send = send;
+  }
+
+  /**
+   * Whether this client has entered the channel
+   */
+  get isPresent(): boolean {
+    return this.entered;
+  }
+
+  /**
+   * Enter the channel with optional member data
+   *
+   * If disconnected, the client enters once connected (and re-enters after every reconnect).
+   */
+  enter(data: Record<string, unknown> = {}): void {
+    this.entered = true;
+    this.data = data;
+    this.sendAction('enter', data);
+  }
+
+  /**
+   * Update this client's member data
+   *
+   * @throws {PushFloError} If the channel has not been entered
+   */
+  update(data: Record<string, unknown>): void {
+    if (!this.entered) {
+      throw new PushFloError(
+        `Cannot update presence on '${this.channel}' before entering`,
+        ERROR_CODES.INVALID_STATE
+      );
+    }
+
+    this.data = data;
+    this.sendAction('update', data);
+  }
+
+  /**
+   * Leave the channel
+   */
+  leave(): void {
+    if (!this.entered) {
+      return;
+    }
+
+    this.entered = false;
+    this.data = {};
+    this.sendAction('leave');
+    this.memberMap.clear();
+  }
+
+  /**
+   * Get the current members of the channel
+   */
+  members(): PresenceMember[] {
+    return Array.from(this.memberMap.values());
+  }
+
+  /**
+   * Re-enter after (re)connecting
+   */
+  handleConnected(): void {
+    if (this.entered) {
+      this.sendAction('enter', this.data);
+    }
+  }
+
+  /**
+   * Handle a presence frame from the server
+   */
+  handleMessage(message: WsServerMessage): void {
+    if (message.action === 'sync') {
+      this.memberMap.clear();
+      message.members?.forEach((member) => {
+        this.memberMap.set(member.clientId, member);
+      });
+      this.emit('sync', this.members());
+      return;
+    }
+
+    if (!message.clientId || !message.action) {
+      return;
+    }
+
+    const member: PresenceMember = {
+      clientId: message.clientId,
+      data: message.data ?? {},
+      timestamp: message.timestamp ?? Date.now(),
+    };
+
+    switch (message.action) {
+      case 'enter':
+        this.memberMap.set(member.clientId, member);
+        this.emit('enter', member);
+        break;
+
+      case 'update':
+        this.memberMap.set(member.clientId, member);
+        this.emit('update', member);
+        break;
+
+      case 'leave':
+        this.memberMap.delete(member.clientId);
+        this.emit('leave', member);
+        break;
+    }
+  }
+
+  private sendAction(action: PresenceAction, data?: Record<string, unknown>): void {
+    this.send({
+      type: WS_CLIENT_MESSAGES.PRESENCE,
+      channel: this.channel,
+      action,
+      ...(data !== undefined && { data }),
+    });
+  }
+}
@@ -0,0 +1,188 @@
+import { WS_CLIENT_MESSAGES, ERROR_CODES } from '../utils/constants.js';
+import { ConnectionError } from '../errors/ConnectionError.js';
+import { PushFloError } from '../errors/PushFloError.js';
+import type { PublishOptions, PublishResult } from '../types/message.js';
+import type { WsClientMessage, WsServerMessage } from '../types/api.js';
+
+export interface PublishManagerOptions {
+  /** Send a frame over the socket; returns false if it could not be sent */
+  send: (message: WsClientMessage) => boolean;
+
+  /** Time to wait for the server to confirm a publish, in milliseconds */
+  timeout: number;
+}
+
+interface PendingPublish {
+  requestId: string;
+  frame: WsClientMessage;
+  resolve: (result: PublishResult) => void;
+  reject: (error: Error) => void;
+  timeoutId: ReturnType<typeof setTimeout> | null;
+}
+
+/**
+ * Tracks client publishes until the server confirms them, queueing while disconnected
+ */
+export class PublishManager {
+  private readonly send: (message: WsClientMessage) => boolean;
+  private readonly timeout: number;
+  private queue: PendingPublish[] = [];
+  private inFlight: Map<string, PendingPublish> = new Map();
+  private nextRequestId = 1;
+
+  constructor(options: PublishManagerOptions) {
+    this.send = options.send;
+    this.timeout = options.timeout;
+  }
+
+  /**
+   * Publish a message, queueing it if it cannot be sent right now
+   */
+  publish(
+    channel: string,
+    content: Record<string, unknown>,
+    options: PublishOptions = {}
+  ): Promise<PublishResult> {
+    return new Promise((resolve, reject) => {
+      const requestId = `pub-${this.nextRequestId++}`;
+      const pending: PendingPublish = {
+        requestId,
+        frame: {
+          type: WS_CLIENT_MESSAGES.PUBLISH,
+          requestId,
+          channel,
+          eventType: options.eventType ?? 'message',
+          data: content,
+        },
+        resolve,
+        reject,
+        timeoutId: null,
+      };
+
+      if (!this.trySend(pending)) {
+        this.queue.push(pending);
+      }
+    });
+  }
+
+  /**
+   * Send all queued publishes (e.g., after connecting)
+   */
+  flush(): void {
+    const queued = this.queue;
+    this.queue = [];
+
+    for (let index = 0; index < queued.length; index++) {
+      if (!this.trySend(queued[index]!)) {
+        // Socket went away mid-flush; keep the rest queued in order
+        this.queue = queued.slice(index);
+        break;
+      }
+    }
+  }
+
+  /**
+   * Resolve a publish confirmed by the server
+   */
+  handleResult(message: WsServerMessage): void {
+    const pending = this.take(message.requestId);
+    if (!pending) {
+      return;
+    }
+
+    pending.resolve({
+      id: message.messageId ?? '',
+      channelSlug: message.channel ?? pending.frame.channel ?? '',
+      eventType: message.eventType ?? pending.frame.eventType ?? 'message',
+      clientId: message.clientId ?? '',
+      delivered: message.delivered ?? 0,
+      createdAt: message.createdAt ?? new Date(message.timestamp ?? Date.now()).toISOString(),
+    });
+  }
+
+  /**
+   * Reject a publish the server refused
+   * @returns true if the error belonged to a pending publish
+   */
+  handleError(message: WsServerMessage): boolean {
+    const pending = this.take(message.requestId);
+    if (!pending) {
+      return false;
+    }
+
+    pending.reject(new PushFloError(
+      message.error ?? 'Publish failed',
+      message.code ?? ERROR_CODES.SERVER_ERROR
+    ));
+    return true;
+  }
+
+  /**
+   * Reject publishes that were sent but not confirmed before the connection dropped.
+   * Queued publishes are kept and sent on reconnect.
+   */
+  handleDisconnect(): void {
+    this.inFlight.forEach((pending) => {
+      this.clearTimeout(pending);
+      pending.reject(ConnectionError.closed('connection lost before publish was confirmed'));
+    });
+    this.inFlight.clear();
+  }
+
+  /**
+   * Reject all queued and in-flight publishes
+   */
+  clear(error: Error): void {
+    [...this.queue, ...this.inFlight.values()].forEach((pending) => {
+      this.clearTimeout(pending);
+      pending.reject(error);
+    });
+    this.queue = [];
+    this.inFlight.clear();
+  }
+
+  /**
+   * Number of publishes waiting to be sent
+   */
+  get queuedCount(): number {
+    return this.queue.length;
+  }
+
+  private trySend(pending: PendingPublish): boolean {
+    if (!this.send(pending.frame)) {
+      return false;
+    }
+
+    this.inFlight.set(pending.requestId, pending);
+    pending.timeoutId = setTimeout(() => {
+      if (this.inFlight.delete(pending.requestId)) {
+        pending.reject(new PushFloError(
+          `Publish was not confirmed within ${this.timeout}ms`,
+          ERROR_CODES.REQUEST_TIMEOUT,
+          { retryable: true }
+        ));
+      }
+    }, this.timeout);
+    return true;
+  }
+
+  private take(requestId: string | undefined): PendingPublish | undefined {
+    if (requestId === undefined) {
+      return undefined;
+    }
+
+    const pending = this.inFlight.get(requestId);
+    if (pending) {
+      this.inFlight.delete(requestId);
+      this.clearTimeout(pending);
+    }
+    return pending;
+  }
+
+  private clearTimeout(pending: PendingPublish): void {
+    if (pending.timeoutId !== null) {
+      clearTimeout(pending.timeoutId);
+      pending.timeoutId = null;
+    }
+  }
+}
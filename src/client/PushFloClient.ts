@@ -1,64 +1,174 @@
 import { TypedEventEmitter } from '../utils/EventEmitter.js';
-import { DEFAULTS, WS_SERVER_MESSAGES, ERROR_CODES } from '../utils/constants.js';
+import { DEFAULTS, API_PATHS, WS_SERVER_MESSAGES, ERROR_CODES } from '../utils/constants.js';
 import { createLogger, type Logger } from '../utils/logger.js';
 import { AuthenticationError } from '../errors/AuthenticationError.js';
 import { PushFloError } from '../errors/PushFloError.js';
 import { ValidationError } from '../errors/ValidationError.js';
 import { isValidChannelSlug } from '../utils/validation.js';
-import { WebSocketManager } from './WebSocketManager.js';
-import { SubscriptionManager } from './SubscriptionManager.js';
-import type { ConnectionState, ClientOptions, ConnectionInfo } from '../types/connection.js';
-import type { Message, Subscription, SubscriptionOptions } from '../types/message.js';
-import type { WsServerMessage } from '../types/api.js';
+import { WebSocketManager, type SubscribeFrameOptions } from './WebSocketManager.js';
+import { SubscriptionManager, sameSubscribeOptions, type LastSeenMessage } from './SubscriptionManager.js';
+import { SubscriptionHandle } from './SubscriptionHandle.js';
+import { MessageDeduplicator } from './MessageDeduplicator.js';
+import { SequenceTracker } from './SequenceTracker.js';
+import { resolveCodec } from '../utils/codec.js';
+import { encryptContent } from '../utils/encryption.js';
+import { validateContent, validateMessage } from '../utils/schema.js';
+import { PublishManager } from './PublishManager.js';
+import { PresenceChannel } from './PresenceChannel.js';
+import { ConnectionError } from '../errors/ConnectionError.js';
+import { RestClient } from '../server/RestClient.js';
+import type {
+  ConnectionState,
+  ConnectionDetails,
+  ClientOptions,
+  ConnectionInfo,
+  ConnectionQuality,
+  ClientStats,
+  LatencyStats,
+} from '../types/connection.js';
+import type {
+  Message,
+  PublishOptions,
+  PublishResult,
+  SequenceGap,
+  Subscription,
+  SubscriptionOptions,
+} from '../types/message.js';
+import type {
+  ChannelEventType,
+  ChannelMap,
+  ChannelMessage,
+  ChannelName,
+  ChannelValidators,
+  DefaultChannelMap,
+} from '../types/schema.js';
+import type { Pagination, WsServerMessage } from '../types/api.js';
 
 interface PushFloClientEvents {
   [key: string]: unknown[];
   connected: [ConnectionInfo];
   disconnected: [reason?: string];
   message: [Message];
+  recovered: [channel: string, count: number];
+  gap: [SequenceGap];
   error: [Error];
+  online: [];
+  offline: [];
+  hidden: [];
+  visible: [];
+  qualityChange: [ConnectionQuality];
+}
+
+interface MessagesResponse {
+  items: Message[];
+  pagination: Pagination;
 }
 
 /**
  * Browser client for PushFlo real-time messaging
+ *
+ * Pass a channel map as `TChannels` to type `subscribe()` and `publish()` by channel and event type.
  */
-export class PushFloClient extends TypedEventEmitter<PushFloClientEvents> {
+export class PushFloClient<TChannels extends ChannelMap = DefaultChannelMap> extends TypedEventEmitter<PushFloClientEvents> {
   private readonly wsManager: WebSocketManager;
   private readonly subscriptions: SubscriptionManager;
+  private readonly publishes: PublishManager;
+  private readonly deduplicator: MessageDeduplicator;
+  private readonly sequences: SequenceTracker;
+  private messagesReceived = 0;
+  private readonly presenceChannels: Map<string, PresenceChannel> = new Map();
   private readonly logger: Logger;
-  private connectionChangeListeners: Set<(state: ConnectionState) => void> = new Set();
-
-  constructor(options: ClientOptions) {
+  private readonly channelAuthorizer?: (channel: string, clientId: string) => Promise<string>;
+  private readonly validators?: ChannelValidators<ChannelMap>;
+  /** Client for backfilling missed messages (null when recovery is disabled) */
+  private readonly historyClient: RestClient | null;
+  private readonly maxRecoveredMessages: number;
+  private readonly subscribeTimeout: number;
+  private readonly subscribeBatchSize: number;
+  /** Pending subscribe confirmation timers by channel */
+  private readonly subscribeTimers: Map<string, ReturnType<typeof setTimeout>> = new Map();
+  private connectionChangeListeners: Set<(state: ConnectionState, details: ConnectionDetails) => void> = new Set();
+
+  constructor(options: ClientOptions<TChannels>) {
     super();
 
-    if (!options.publishKey) {
+    if (!options.publishKey && !options.tokenProvider) {
       throw new AuthenticationError(
         'Publish key is required',
         'MISSING_PUBLISH_KEY'
       );
     }
 
-    if (!options.publishKey.startsWith('pub_') &&
+    if (options.publishKey &&
+        !options.publishKey.startsWith('pub_') &&
         !options.publishKey.startsWith('sec_') &&
         !options.publishKey.startsWith('mgmt_')) {
       throw AuthenticationError.invalidKey('publish');
     }
 
     this.logger = createLogger({ debug: options.debug, prefix: '[PushFlo]' });
-    this.subscriptions = new SubscriptionManager();
+    this.validators = options.validators;
+    this.subscriptions = new SubscriptionManager({
+      validate: this.validators ? (message) => validateMessage(this.validators, message) : undefined,
+    });
+    this.channelAuthorizer = options.authorizeChannel;
 
     this.wsManager = new WebSocketManager({
       apiKey: options.publishKey,
+      tokenProvider: options.tokenProvider,
       baseUrl: options.baseUrl ?? DEFAULTS.BASE_URL,
+      WebSocket: options.WebSocket,
+      webSocketOptions: options.webSocketOptions,
+      transport: options.transport,
+      fallbackAfterFailures: options.fallbackAfterFailures,
+      EventSource: options.EventSource,
+      codec: resolveCodec(options.codec),
       connectionTimeout: options.connectionTimeout,
       heartbeatInterval: options.heartbeatInterval,
       autoReconnect: options.autoReconnect,
+      retryInitialConnect: options.retryInitialConnect,
       maxReconnectAttempts: options.maxReconnectAttempts,
       reconnectDelay: options.reconnectDelay,
       maxReconnectDelay: options.maxReconnectDelay,
+      retryStrategy: options.retryStrategy,
+      networkStatus: options.networkStatus,
+      hiddenDisconnectDelay: options.hiddenDisconnectDelay,
+      shared: options.shared,
+      latencyThresholds: options.latencyThresholds,
       debug: options.debug,
     });
 
+    this.publishes = new PublishManager({
+      send: (message) => this.wsManager.send(message),
+      timeout: options.publishTimeout ?? DEFAULTS.PUBLISH_TIMEOUT,
+    });
+
+    this.deduplicator = new MessageDeduplicator({
+      maxSize: options.dedupWindowSize ?? DEFAULTS.DEDUP_WINDOW_SIZE,
+      maxAge: options.dedupWindowAge ?? DEFAULTS.DEDUP_WINDOW_AGE,
+    });
+
+    this.sequences = new SequenceTracker({
+      reorderWindow: options.reorderWindow ?? DEFAULTS.REORDER_WINDOW,
+      onDeliver: (message) => this.dispatchMessage(message),
+      onGap: (gap) => {
+        this.logger.warn('Sequence gap detected:', gap);
+        this.subscriptions.handleGap(gap);
+        this.emit('gap', gap);
+      },
+    });
+
+    this.historyClient = options.recoverMessages
+      ? new RestClient({
+        apiKey: () => this.wsManager.getAuthToken(),
+        baseUrl: options.baseUrl ?? DEFAULTS.BASE_URL,
+        debug: options.debug,
+      })
+      : null;
+    this.maxRecoveredMessages = options.maxRecoveredMessages ?? DEFAULTS.MAX_RECOVERED_MESSAGES;
+    this.subscribeTimeout = options.subscribeTimeout ?? DEFAULTS.SUBSCRIBE_TIMEOUT;
+    this.subscribeBatchSize = Math.max(1, options.subscribeBatchSize ?? DEFAULTS.SUBSCRIBE_BATCH_SIZE);
+
     this.setupEventHandlers();
 
     // Auto-connect if enabled
@@ -76,6 +186,20 @@ export class PushFloClient extends TypedEventEmitter<PushFloClientEvents> {
     return this.wsManager.state;
   }
 
+  /**
+   * Get current connection quality, derived from heartbeat round-trip times
+   */
+  get connectionQuality(): ConnectionQuality {
+    return this.wsManager.quality;
+  }
+
+  /**
+   * Get details of the current connection state
+   */
+  get connectionDetails(): ConnectionDetails {
+    return this.wsManager.details;
+  }
+
   /**
    * Get client ID (available after connected)
    */
@@ -89,16 +213,14 @@ export class PushFloClient extends TypedEventEmitter<PushFloClientEvents> {
   async connect(): Promise<void> {
     this.logger.debug('Connecting...');
     await this.wsManager.connect();
+  }
 
-    // Re-subscribe to all channels
-    const channels = this.subscriptions.getChannels();
-    if (channels.length > 0) {
-      this.logger.debug('Re-subscribing to channels:', channels);
-      this.subscriptions.resetConfirmations();
-      channels.forEach((channel) => {
-        this.wsManager.subscribe(channel);
-      });
-    }
+  /**
+   * Run the next reconnect attempt now instead of waiting for its delay
+   * @note Does nothing unless the connection state is `'reconnecting'`
+   */
+  retryNow(): void {
+    this.wsManager.retryNow();
   }
 
   /**
@@ -107,6 +229,12 @@ export class PushFloClient extends TypedEventEmitter<PushFloClientEvents> {
   disconnect(): void {
     this.logger.debug('Disconnecting...');
     this.wsManager.disconnect();
+    // Nothing reconnects after an intentional disconnect, so queued publishes would never be sent
+    this.publishes.clear(new ConnectionError(
+      'Client disconnected before publish was sent',
+      ERROR_CODES.CONNECTION_CLOSED,
+      { retryable: false }
+    ));
   }
 
   /**
@@ -114,7 +242,14 @@ export class PushFloClient extends TypedEventEmitter<PushFloClientEvents> {
    */
   destroy(): void {
     this.logger.debug('Destroying client...');
+    this.publishes.clear(new ConnectionError('Client destroyed', ERROR_CODES.CONNECTION_CLOSED, { retryable: false }));
+    this.subscribeTimers.forEach((timer) => clearTimeout(timer));
+    this.subscribeTimers.clear();
     this.subscriptions.clear();
+    this.deduplicator.clear();
+    this.sequences.clear();
+    this.presenceChannels.forEach((presence) => presence.removeAllListeners());
+    this.presenceChannels.clear();
     this.wsManager.destroy();
     this.connectionChangeListeners.clear();
     this.removeAllListeners();
@@ -125,40 +260,144 @@ export class PushFloClient extends TypedEventEmitter<PushFloClientEvents> {
    *
    * @throws {ValidationError} If the channel slug is invalid
    */
-  subscribe(channel: string, options: SubscriptionOptions = {}): Subscription {
-    if (!channel) {
-      throw new PushFloError('Channel is required', 'INVALID_CHANNEL', { retryable: false });
-    }
+  subscribe<TChannel extends ChannelName<TChannels>>(
+    channel: TChannel,
+    options: SubscriptionOptions<ChannelMessage<TChannels, TChannel>> = {}
+  ): Subscription<ChannelMessage<TChannels, TChannel>> {
+    assertChannel(channel);
 
-    if (!isValidChannelSlug(channel)) {
-      throw ValidationError.invalidChannelSlug(channel);
+    this.logger.debug('Subscribing to channel:', channel);
+
+    const { subscription, needsSubscribe } = this.addListener<ChannelMessage<TChannels, TChannel>>(
+      channel,
+      options as SubscriptionOptions
+    );
+    if (needsSubscribe && this.wsManager.state === 'connected') {
+      this.sendSubscribes([channel]);
     }
 
-    this.logger.debug('Subscribing to channel:', channel);
+    return subscription;
+  }
 
-    // Add to subscription manager
-    this.subscriptions.add(channel, options);
+  /**
+   * Subscribe to several channels with the same options
+   *
+   * New channels are subscribed with batched frames of up to `subscribeBatchSize` channels.
+   *
+   * @returns One subscription per channel, in the same order
+   * @throws {ValidationError} If any channel slug is invalid; nothing is subscribed then
+   */
+  subscribeMany<TChannel extends ChannelName<TChannels>>(
+    channels: readonly TChannel[],
+    options: SubscriptionOptions<ChannelMessage<TChannels, TChannel>> = {}
+  ): Subscription<ChannelMessage<TChannels, TChannel>>[] {
+    channels.forEach(assertChannel);
+
+    this.logger.debug('Subscribing to channels:', channels);
+
+    const toSubscribe: string[] = [];
+    const subscriptions = channels.map((channel) => {
+      const { subscription, needsSubscribe } = this.addListener<ChannelMessage<TChannels, TChannel>>(
+        channel,
+        options as SubscriptionOptions
+      );
+      if (needsSubscribe) {
+        toSubscribe.push(channel);
+      }
+      return subscription;
+    });
 
-    // Send subscribe message if connected
-    if (this.wsManager.state === 'connected') {
-      this.wsManager.subscribe(channel);
+    if (toSubscribe.length > 0 && this.wsManager.state === 'connected') {
+      this.sendSubscribes(toSubscribe);
     }
 
-    // Return subscription handle
-    return {
+    return subscriptions;
+  }
+
+  /**
+   * Add a listener; the channel may already be subscribed by another caller
+   */
+  private addListener<TMessage>(
+    channel: string,
+    options: SubscriptionOptions
+  ): { subscription: Subscription<TMessage>; needsSubscribe: boolean } {
+    const isNewChannel = !this.subscriptions.has(channel);
+    const previousOptions = this.subscriptions.getSubscribeOptions(channel);
+    const listenerId = this.subscriptions.add(channel, {
+      ...options,
+      // Per-event handlers run first; onMessage's result still decides when auto acks are sent
+      onMessage: (message) => {
+        subscription.dispatch(message);
+        return options.onMessage?.(message);
+      },
+    });
+    const subscribeOptions = this.subscriptions.getSubscribeOptions(channel);
+
+    // Subscribe a new channel, or re-send if this listener needs acks, authorization or more event types
+    const needsSubscribe = isNewChannel || !sameSubscribeOptions(previousOptions, subscribeOptions);
+
+    const subscription = new SubscriptionHandle<TMessage>(
       channel,
-      unsubscribe: () => this.unsubscribe(channel),
-    };
+      this.subscriptions.getReady(channel, listenerId) ?? Promise.resolve(),
+      () => this.removeListener(channel, listenerId)
+    );
+    this.startSubscribeTimer(channel);
+
+    return { subscription, needsSubscribe };
   }
 
   /**
-   * Unsubscribe from a channel
+   * Subscribe to a channel and wait until the server confirms the subscription
+   *
+   * The listener is removed again if the subscription fails.
+   *
+   * @throws {ValidationError} If the channel slug is invalid
+   * @throws {PushFloError} If the subscription errors or is not confirmed within `subscribeTimeout`
+   */
+  async subscribeAsync<TChannel extends ChannelName<TChannels>>(
+    channel: TChannel,
+    options: SubscriptionOptions<ChannelMessage<TChannels, TChannel>> = {}
+  ): Promise<Subscription<ChannelMessage<TChannels, TChannel>>> {
+    const subscription = this.subscribe(channel, options);
+    try {
+      await subscription.ready;
+    } catch (error) {
+      subscription.unsubscribe();
+      throw error;
+    }
+    return subscription;
+  }
+
+  /**
+   * Remove a single listener, unsubscribing from the channel when it was the last one
+   */
+  private removeListener(channel: string, listenerId: number): void {
+    if (!this.subscriptions.removeListener(channel, listenerId)) {
+      return;
+    }
+
+    if (!this.subscriptions.has(channel)) {
+      this.logger.debug('Last listener left, unsubscribing from channel:', channel);
+      this.clearSubscribeTimer(channel);
+      this.deduplicator.forget(channel);
+      this.sequences.forget(channel);
+      if (this.wsManager.state === 'connected') {
+        this.wsManager.unsubscribe(channel);
+      }
+    }
+  }
+
+  /**
+   * Unsubscribe from a channel, removing all of its listeners
    */
   unsubscribe(channel: string): void {
     this.logger.debug('Unsubscribing from channel:', channel);
 
     // Remove from subscription manager
     this.subscriptions.remove(channel);
+    this.clearSubscribeTimer(channel);
+    this.deduplicator.forget(channel);
+    this.sequences.forget(channel);
 
     // Send unsubscribe message if connected
     if (this.wsManager.state === 'connected') {
@@ -166,10 +405,86 @@ export class PushFloClient extends TypedEventEmitter<PushFloClientEvents> {
     }
   }
 
+  /**
+   * Unsubscribe from several channels, removing all of their listeners
+   *
+   * Sends batched frames of up to `subscribeBatchSize` channels.
+   */
+  unsubscribeMany(channels: readonly string[]): void {
+    this.logger.debug('Unsubscribing from channels:', channels);
+
+    const toUnsubscribe = channels.filter((channel) => {
+      this.clearSubscribeTimer(channel);
+      this.deduplicator.forget(channel);
+      this.sequences.forget(channel);
+      return this.subscriptions.remove(channel);
+    });
+
+    if (this.wsManager.state === 'connected') {
+      chunk(toUnsubscribe, this.subscribeBatchSize).forEach((batch) => this.wsManager.unsubscribeMany(batch));
+    }
+  }
+
+  /**
+   * Publish a message to a channel over the WebSocket connection
+   *
+   * Publishes made while disconnected are queued and sent once connected.
+   * Resolves when the server confirms the publish.
+   *
+   * @throws {ValidationError} If the channel slug is invalid or a validator rejects the content
+   */
+  publish<
+    TChannel extends ChannelName<TChannels>,
+    TEventType extends ChannelEventType<TChannels, TChannel> = Extract<'message', ChannelEventType<TChannels, TChannel>>,
+  >(
+    channel: TChannel,
+    content: TChannels[TChannel][TEventType],
+    options: PublishOptions<TEventType> = {}
+  ): Promise<PublishResult> {
+    if (!isValidChannelSlug(channel)) {
+      return Promise.reject(ValidationError.invalidChannelSlug(channel));
+    }
+
+    let validated: Record<string, unknown>;
+    try {
+      validated = validateContent(this.validators, channel, options.eventType ?? 'message', content);
+    } catch (error) {
+      return Promise.reject(error);
+    }
+
+    this.logger.debug('Publishing to channel:', channel);
+    const { encryption, ...publishOptions } = options;
+    if (encryption) {
+      return encryptContent(validated, encryption)
+        .then((encrypted) => this.publishes.publish(channel, encrypted, publishOptions));
+    }
+    return this.publishes.publish(channel, validated, publishOptions);
+  }
+
+  /**
+   * Get the presence handle for a channel
+   *
+   * @throws {ValidationError} If the channel slug is invalid
+   */
+  presence(channel: string): PresenceChannel {
+    if (!isValidChannelSlug(channel)) {
+      throw ValidationError.invalidChannelSlug(channel);
+    }
+
+    let presence = this.presenceChannels.get(channel);
+    if (!presence) {
+      presence = new PresenceChannel(channel, (message) => this.wsManager.send(message));
+      this.presenceChannels.set(channel, presence);
+    }
+    return presence;
+  }
+
   /**
    * Register a connection state change listener
+   *
+   * Listeners also receive the state's details, such as the reconnect attempt and when it runs.
    */
-  onConnectionChange(listener: (state: ConnectionState) => void): () => void {
+  onConnectionChange(listener: (state: ConnectionState, details: ConnectionDetails) => void): () => void {
     this.connectionChangeListeners.add(listener);
     return () => this.connectionChangeListeners.delete(listener);
   }
@@ -188,25 +503,185 @@ export class PushFloClient extends TypedEventEmitter<PushFloClientEvents> {
     return this.subscriptions.has(channel);
   }
 
+  /**
+   * Get message delivery counters
+   */
+  getStats(): ClientStats {
+    return {
+      messagesReceived: this.messagesReceived,
+      duplicatesDropped: this.deduplicator.droppedCount,
+    };
+  }
+
+  /**
+   * Get heartbeat round-trip time statistics and the estimated server clock offset
+   */
+  getLatency(): LatencyStats {
+    return this.wsManager.getLatency();
+  }
+
+  /**
+   * Re-subscribe to all channels after (re)connecting
+   */
+  private resubscribeAll(): void {
+    const channels = this.subscriptions.getChannels();
+    if (channels.length === 0) {
+      return;
+    }
+
+    this.logger.debug('Re-subscribing to channels:', channels);
+    this.subscriptions.resetConfirmations();
+    channels.forEach((channel) => {
+      // Buffer live messages until the missed ones are backfilled
+      if (this.historyClient && this.subscriptions.getLastSeen(channel)) {
+        this.subscriptions.startRecovery(channel);
+      }
+    });
+    this.sendSubscribes(channels);
+  }
+
+  /**
+   * Send subscribe frames, batching public channels and authorizing private channels first
+   *
+   * Channels share a batch when they share the ack setting and event type filter.
+   */
+  private sendSubscribes(channels: string[]): void {
+    const batches: Map<string, { frameOptions: SubscribeFrameOptions; channels: string[] }> = new Map();
+
+    channels.forEach((channel) => {
+      this.startSubscribeTimer(channel);
+
+      const options = this.subscriptions.getSubscribeOptions(channel);
+      const frameOptions: SubscribeFrameOptions = {
+        ack: options.ack,
+        ...(options.eventTypes && { eventTypes: options.eventTypes }),
+      };
+      if (options.isPrivate) {
+        // Each private channel carries its own grant, so it gets a frame of its own
+        this.sendPrivateSubscribe(channel, frameOptions);
+        return;
+      }
+
+      const key = JSON.stringify(frameOptions);
+      const batch = batches.get(key) ?? { frameOptions, channels: [] };
+      batch.channels.push(channel);
+      batches.set(key, batch);
+    });
+
+    batches.forEach(({ frameOptions, channels: batchChannels }) => {
+      chunk(batchChannels, this.subscribeBatchSize)
+        .forEach((batch) => this.wsManager.subscribeMany(batch, frameOptions));
+    });
+  }
+
+  /**
+   * Authorize a private channel, then send its subscribe frame
+   */
+  private sendPrivateSubscribe(channel: string, frameOptions: SubscribeFrameOptions): void {
+    const clientId = this.wsManager.getClientId() ?? '';
+    this.authorizeChannel(channel, clientId)
+      .then((auth) => {
+        // Skip if unsubscribed or reconnected meanwhile; a reconnect re-authorizes with the new client ID
+        if (!this.subscriptions.has(channel) || this.wsManager.getClientId() !== clientId) {
+          return;
+        }
+        this.wsManager.subscribe(channel, { ...frameOptions, auth });
+      })
+      .catch((error: Error) => {
+        this.logger.error('Channel authorization failed:', channel, error);
+        this.clearSubscribeTimer(channel);
+        this.abandonRecovery(channel);
+        this.subscriptions.handleError(channel, error);
+      });
+  }
+
+  /**
+   * Fail pending `subscription.ready` promises and end any recovery if the server does not confirm in time
+   *
+   * A running timer is kept, so the timeout counts from the subscribe call even while disconnected.
+   */
+  private startSubscribeTimer(channel: string): void {
+    if (
+      this.subscribeTimers.has(channel) ||
+      (!this.subscriptions.hasPendingReady(channel) && !this.subscriptions.isRecovering(channel))
+    ) {
+      return;
+    }
+
+    this.subscribeTimers.set(channel, setTimeout(() => {
+      this.subscribeTimers.delete(channel);
+      if (this.subscriptions.isConfirmed(channel)) {
+        return;
+      }
+      this.logger.warn('Subscription not confirmed in time:', channel);
+      this.abandonRecovery(channel);
+      this.subscriptions.handleError(channel, new PushFloError(
+        `Subscription to '${channel}' was not confirmed within ${this.subscribeTimeout}ms`,
+        ERROR_CODES.REQUEST_TIMEOUT,
+        { retryable: true }
+      ));
+    }, this.subscribeTimeout));
+  }
+
+  private clearSubscribeTimer(channel: string): void {
+    const timer = this.subscribeTimers.get(channel);
+    if (timer !== undefined) {
+      clearTimeout(timer);
+      this.subscribeTimers.delete(channel);
+    }
+  }
+
+  private async authorizeChannel(channel: string, clientId: string): Promise<string> {
+    if (!this.channelAuthorizer) {
+      throw new AuthenticationError(
+        `Channel '${channel}' is private but no authorizeChannel callback was configured`,
+        ERROR_CODES.CHANNEL_AUTH_FAILED
+      );
+    }
+
+    try {
+      return await this.channelAuthorizer(channel, clientId);
+    } catch (error) {
+      throw new AuthenticationError(
+        `Authorization denied for channel '${channel}'${error instanceof Error ? `: ${error.message}` : ''}`,
+        ERROR_CODES.CHANNEL_AUTH_FAILED,
+        { cause: error instanceof Error ? error : undefined }
+      );
+    }
+  }
+
   private setupEventHandlers(): void {
     // Handle connection state changes
-    this.wsManager.onStateChange((state) => {
+    this.wsManager.onStateChange((state, details) => {
+      // A failed connection is not retried, so queued publishes would never be sent
+      if (state === 'failed') {
+        this.publishes.clear(new ConnectionError(
+          'Connection failed before publish was sent',
+          ERROR_CODES.CONNECTION_FAILED,
+          { retryable: false, cause: details.lastError ?? undefined }
+        ));
+      }
+
       this.connectionChangeListeners.forEach((listener) => {
         try {
-          listener(state);
+          listener(state, details);
         } catch (error) {
           this.logger.error('Error in connection change listener:', error);
         }
       });
     });
 
-    // Handle connected
+    // Handle connected (initial connect and every reconnect)
     this.wsManager.on('connected', (info) => {
+      this.resubscribeAll();
+      this.presenceChannels.forEach((presence) => presence.handleConnected());
+      this.publishes.flush();
       this.emit('connected', info);
     });
 
     // Handle disconnected
     this.wsManager.on('disconnected', (reason) => {
+      this.publishes.handleDisconnect();
       this.emit('disconnected', reason);
     });
 
@@ -219,21 +694,31 @@ export class PushFloClient extends TypedEventEmitter<PushFloClientEvents> {
     this.wsManager.on('message', (message) => {
       this.handleServerMessage(message);
     });
+
+    // Forward network and visibility changes
+    this.wsManager.on('online', () => this.emit('online'));
+    this.wsManager.on('offline', () => this.emit('offline'));
+    this.wsManager.on('hidden', () => this.emit('hidden'));
+    this.wsManager.on('visible', () => this.emit('visible'));
+
+    // Forward connection quality changes
+    this.wsManager.on('qualityChange', (quality) => this.emit('qualityChange', quality));
   }
 
   private handleServerMessage(message: WsServerMessage): void {
     switch (message.type) {
       case WS_SERVER_MESSAGES.SUBSCRIBED:
-        if (message.channel) {
-          this.subscriptions.confirm(message.channel);
-          this.logger.debug('Subscribed to channel:', message.channel);
-        }
+        // Batched subscribes confirm several channels and may refuse some of them
+        replyChannels(message).forEach((channel) => this.handleSubscribed(channel));
+        message.failed?.forEach((failure) => {
+          this.handleSubscribeError(failure.channel, failure.code, failure.error);
+        });
         break;
 
       case WS_SERVER_MESSAGES.UNSUBSCRIBED:
-        if (message.channel) {
-          this.logger.debug('Unsubscribed from channel:', message.channel);
-        }
+        replyChannels(message).forEach((channel) => {
+          this.logger.debug('Unsubscribed from channel:', channel);
+        });
         break;
 
       case WS_SERVER_MESSAGES.MESSAGE:
@@ -245,25 +730,216 @@ export class PushFloClient extends TypedEventEmitter<PushFloClientEvents> {
             clientId: message.clientId ?? '',
             content: message.data ?? {},
             timestamp: message.timestamp ?? Date.now(),
+            ...(message.sequence !== undefined && { sequence: message.sequence }),
           };
 
-          // Notify subscription handler
-          this.subscriptions.handleMessage(fullMessage);
+          this.deliverMessage(fullMessage);
+        }
+        break;
 
-          // Emit general message event
-          this.emit('message', fullMessage);
+      case WS_SERVER_MESSAGES.PRESENCE:
+        if (message.channel) {
+          this.presenceChannels.get(message.channel)?.handleMessage(message);
         }
         break;
 
+      case WS_SERVER_MESSAGES.PUBLISHED:
+        this.publishes.handleResult(message);
+        break;
+
       case WS_SERVER_MESSAGES.ERROR:
+        if (this.publishes.handleError(message)) {
+          break;
+        }
         if (message.channel) {
-          const error = new PushFloError(
-            message.error ?? 'Unknown error',
-            message.code ?? ERROR_CODES.SERVER_ERROR
-          );
-          this.subscriptions.handleError(message.channel, error);
+          this.handleSubscribeError(message.channel, message.code, message.error);
         }
         break;
     }
   }
+
+  private handleSubscribed(channel: string): void {
+    const wasConfirmed = this.subscriptions.isConfirmed(channel);
+    this.clearSubscribeTimer(channel);
+    this.subscriptions.confirm(channel);
+    this.logger.debug('Subscribed to channel:', channel);
+
+    // Backfill once the subscription is live so nothing falls between history and live delivery
+    const recoveryId = this.subscriptions.getRecoveryId(channel);
+    if (!wasConfirmed && recoveryId !== null) {
+      void this.recoverChannel(channel, recoveryId);
+    }
+  }
+
+  private handleSubscribeError(channel: string, code: string = ERROR_CODES.SERVER_ERROR, message?: string): void {
+    const error = code === ERROR_CODES.UNAUTHORIZED || code === ERROR_CODES.FORBIDDEN
+      ? new AuthenticationError(message ?? 'Unauthorized', code)
+      : new PushFloError(message ?? 'Unknown error', code);
+    this.clearSubscribeTimer(channel);
+    this.abandonRecovery(channel);
+    this.subscriptions.handleError(channel, error);
+  }
+
+  /**
+   * End the recovery of a channel whose subscribe failed, delivering the live messages buffered so far
+   *
+   * Without a confirmed subscription there is no point to backfill from, and leaving the recovery
+   * in place would buffer every later message instead of delivering it.
+   */
+  private abandonRecovery(channel: string): void {
+    const recoveryId = this.subscriptions.getRecoveryId(channel);
+    if (recoveryId === null) {
+      return;
+    }
+    this.logger.warn('Abandoned message recovery, subscribe failed:', channel);
+    this.subscriptions.finishRecovery(channel, recoveryId)?.forEach((message) => this.deliverMessage(message));
+  }
+
+  /**
+   * Pass a message on towards subscribers
+   * @returns false if the message was buffered for recovery or dropped as a duplicate
+   */
+  private deliverMessage(message: Message): boolean {
+    if (this.subscriptions.isRecovering(message.channel)) {
+      this.subscriptions.bufferMessage(message);
+      return false;
+    }
+
+    // On acked channels a message only counts as seen once acked, so the server's redelivery of
+    // a message whose handler failed is handled again; a redelivered acked message is re-acked
+    if (this.subscriptions.getSubscribeOptions(message.channel).ack) {
+      if (this.deduplicator.wasSeen(message)) {
+        this.logger.debug('Dropped duplicate message:', message.id);
+        this.wsManager.ack(message.channel, message.id);
+        return false;
+      }
+    } else if (this.deduplicator.isDuplicate(message)) {
+      this.logger.debug('Dropped duplicate message:', message.id);
+      return false;
+    }
+
+    // Sequenced messages may be held briefly to restore their order
+    this.sequences.process(message);
+    return true;
+  }
+
+  /**
+   * Deliver a message to subscribers and the global 'message' event
+   */
+  private dispatchMessage(message: Message): void {
+    this.messagesReceived++;
+
+    // Notify subscription handler
+    this.subscriptions.handleMessage(message, (channel, messageId) => {
+      if (this.wsManager.ack(channel, messageId)) {
+        this.deduplicator.record(message);
+      } else {
+        this.logger.warn('Ack not sent, message will be redelivered:', messageId);
+      }
+    });
+
+    // Emit general message event
+    this.emit('message', message);
+  }
+
+  /**
+   * Replay messages missed while disconnected, then flush live messages buffered meanwhile
+   */
+  private async recoverChannel(channel: string, recoveryId: number): Promise<void> {
+    const lastSeen = this.subscriptions.getLastSeen(channel);
+
+    let missed: Message[] = [];
+    if (lastSeen) {
+      try {
+        missed = await this.fetchMissedMessages(channel, lastSeen);
+      } catch (error) {
+        this.logger.error('Failed to recover missed messages:', channel, error);
+        this.subscriptions.handleError(channel, error instanceof Error ? error : new Error(String(error)));
+      }
+    }
+
+    const buffered = this.subscriptions.finishRecovery(channel, recoveryId);
+    if (buffered === null) {
+      // Unsubscribed or superseded by a newer reconnect
+      return;
+    }
+
+    const delivered = new Set<string>(lastSeen ? [lastSeen.id] : []);
+    let replayed = 0;
+
+    missed.forEach((message) => {
+      if (!delivered.has(message.id)) {
+        delivered.add(message.id);
+        if (this.deliverMessage(message)) {
+          replayed++;
+        }
+      }
+    });
+
+    buffered.forEach((message) => {
+      if (!delivered.has(message.id)) {
+        delivered.add(message.id);
+        this.deliverMessage(message);
+      }
+    });
+
+    this.logger.debug(`Recovered ${replayed} missed messages on channel:`, channel);
+    this.subscriptions.handleRecovered(channel, replayed);
+    this.emit('recovered', channel, replayed);
+  }
+
+  private async fetchMissedMessages(channel: string, lastSeen: LastSeenMessage): Promise<Message[]> {
+    const messages: Message[] = [];
+
+    for (let page = 1; messages.length < this.maxRecoveredMessages; page++) {
+      const response = await this.historyClient!.get<MessagesResponse>(
+        API_PATHS.CHANNEL_MESSAGES(channel),
+        {
+          page,
+          pageSize: DEFAULTS.RECOVERY_PAGE_SIZE,
+          after: lastSeen.timestamp,
+        }
+      );
+
+      messages.push(...response.items);
+
+      if (page >= response.pagination.totalPages) {
+        break;
+      }
+    }
+
+    return messages
+      .filter((message) => message.id !== lastSeen.id && message.timestamp >= lastSeen.timestamp)
+      .map((message) => ({ ...message, channel }))
+      .sort((a, b) => a.timestamp - b.timestamp)
+      .slice(0, this.maxRecoveredMessages);
+  }
+}
+
+/**
+ * @throws {ValidationError} If the channel slug is invalid
+ */
+function assertChannel(channel: string): void {
+  if (!channel) {
+    throw new PushFloError('Channel is required', 'INVALID_CHANNEL', { retryable: false });
+  }
+
+  if (!isValidChannelSlug(channel)) {
+    throw ValidationError.invalidChannelSlug(channel);
+  }
+}
+
+/**
+ * Channels a subscribed/unsubscribed reply covers, batched or not
+ */
+function replyChannels(message: WsServerMessage): string[] {
+  return message.channels ?? (message.channel ? [message.channel] : []);
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
 }
@@ -0,0 +1,134 @@
+import type { Message, SequenceGap } from '../types/message.js';
+
+export interface SequenceTrackerOptions {
+  /** How long to hold out-of-order messages waiting for missing ones, in milliseconds (0 disables) */
+  reorderWindow: number;
+
+  /** Receives messages in sequence order */
+  onDeliver: (message: Message) => void;
+
+  /** Called for every range of sequence numbers that never arrived */
+  onGap: (gap: SequenceGap) => void;
+}
+
+interface ChannelSequence {
+  /** Next expected sequence number, or null before the first sequenced message */
+  expected: number | null;
+  /** Out-of-order messages held for reordering, by sequence number */
+  held: Map<number, Message>;
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
+/**
+ * Tracks per-channel sequence numbers, reordering and reporting gaps
+ *
+ * Messages without a sequence number pass straight through.
+ */
+export class SequenceTracker {
+  private readonly reorderWindow: number;
+  private readonly onDeliver: (message: Message) => void;
+  private readonly onGap: (gap: SequenceGap) => void;
+  private channels: Map<string, ChannelSequence> = new Map();
+
+  constructor(options: SequenceTrackerOptions) {
+    this.reorderWindow = options.reorderWindow;
+    this.onDeliver = options.onDeliver;
+    this.onGap = options.onGap;
+  }
+
+  /**
+   * Process an incoming message, delivering it now or holding it for reordering
+   */
+  process(message: Message): void {
+    const sequence = message.sequence;
+    if (sequence === undefined) {
+      this.onDeliver(message);
+      return;
+    }
+
+    let state = this.channels.get(message.channel);
+    if (!state) {
+      state = { expected: null, held: new Map(), timer: null };
+      this.channels.set(message.channel, state);
+    }
+
+    // First sequenced message, the next expected one, or a late one after its gap was reported
+    if (state.expected === null || sequence <= state.expected) {
+      if (state.expected === null || sequence === state.expected) {
+        state.expected = sequence + 1;
+      }
+      this.onDeliver(message);
+      this.drain(state);
+      return;
+    }
+
+    if (this.reorderWindow <= 0) {
+      this.reportGap(message.channel, state, sequence);
+      state.expected = sequence + 1;
+      this.onDeliver(message);
+      return;
+    }
+
+    state.held.set(sequence, message);
+    state.timer ??= setTimeout(() => this.flush(message.channel), this.reorderWindow);
+  }
+
+  /**
+   * Forget the sequence state for a channel (e.g., after unsubscribing)
+   */
+  forget(channel: string): void {
+    const state = this.channels.get(channel);
+    if (state?.timer) {
+      clearTimeout(state.timer);
+    }
+    this.channels.delete(channel);
+  }
+
+  /**
+   * Forget all channels
+   */
+  clear(): void {
+    Array.from(this.channels.keys()).forEach((channel) => this.forget(channel));
+  }
+
+  /**
+   * Stop waiting: report the remaining gaps and deliver everything held, in order
+   */
+  private flush(channel: string): void {
+    const state = this.channels.get(channel);
+    if (!state) {
+      return;
+    }
+    state.timer = null;
+
+    while (state.held.size > 0) {
+      const next = Math.min(...state.held.keys());
+      this.reportGap(channel, state, next);
+      state.expected = next;
+      this.drain(state);
+    }
+  }
+
+  /**
+   * Deliver held messages that are now next in sequence
+   */
+  private drain(state: ChannelSequence): void {
+    let message: Message | undefined;
+    while (state.expected !== null && (message = state.held.get(state.expected)) !== undefined) {
+      state.held.delete(state.expected);
+      state.expected++;
+      this.onDeliver(message);
+    }
+
+    if (state.held.size === 0 && state.timer) {
+      clearTimeout(state.timer);
+      state.timer = null;
+    }
+  }
+
+  private reportGap(channel: string, state: ChannelSequence, received: number): void {
+    if (state.expected !== null && received > state.expected) {
+      this.onGap({ channel, from: state.expected, to: received - 1 });
+    }
+  }
+}
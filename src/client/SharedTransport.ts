@@ -0,0 +1,79 @@
+import { WS_READY_STATE } from '../utils/constants.js';
+import type { TabCoordinator, SharedConnectionEndpoint } from './TabCoordinator.js';
+import type { WebSocketLike } from '../types/connection.js';
+
+/**
+ * Transport over a connection shared between tabs, with a WebSocket-like interface
+ *
+ * Frames travel through the leader tab's connection; the leader replays the server's
+ * connected frame when this transport opens.
+ */
+export class SharedTransport implements WebSocketLike, SharedConnectionEndpoint {
+  readyState: number = WS_READY_STATE.CONNECTING;
+
+  onopen: WebSocketLike['onopen'] = null;
+  onclose: WebSocketLike['onclose'] = null;
+  onerror: WebSocketLike['onerror'] = null;
+  onmessage: WebSocketLike['onmessage'] = null;
+
+  private readonly coordinator: TabCoordinator;
+
+  constructor(coordinator: TabCoordinator) {
+    this.coordinator = coordinator;
+    coordinator.attach(this);
+  }
+
+  /**
+   * Send a frame through the leader tab
+   */
+  send(data: string | Uint8Array): void {
+    if (this.readyState !== WS_READY_STATE.OPEN) {
+      throw new Error('Shared connection is not open');
+    }
+    this.coordinator.send(data);
+  }
+
+  /**
+   * Leave the shared connection
+   */
+  close(code = 1000, reason = ''): void {
+    this.finish(code, reason);
+  }
+
+  handleOpened(data: unknown): void {
+    if (this.readyState !== WS_READY_STATE.CONNECTING) {
+      return;
+    }
+    this.readyState = WS_READY_STATE.OPEN;
+    this.onopen?.({});
+    this.onmessage?.({ data });
+  }
+
+  handleFrame(data: unknown): void {
+    if (this.readyState !== WS_READY_STATE.CLOSED) {
+      this.onmessage?.({ data });
+    }
+  }
+
+  handleClose(code: number, reason: string): void {
+    this.finish(code, reason);
+  }
+
+  handleLeaderChange(): void {
+    // A pending open may have gone unanswered while no tab was leading
+    if (this.readyState === WS_READY_STATE.CONNECTING) {
+      this.coordinator.requestOpen();
+      return;
+    }
+    this.finish(1006, 'Shared connection leader changed');
+  }
+
+  private finish(code: number, reason: string): void {
+    if (this.readyState === WS_READY_STATE.CLOSED) {
+      return;
+    }
+    this.readyState = WS_READY_STATE.CLOSED;
+    this.coordinator.detach(this);
+    this.onclose?.({ code, reason });
+  }
+}
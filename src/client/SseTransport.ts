@@ -0,0 +1,115 @@
+import { WS_READY_STATE, WS_SERVER_MESSAGES } from '../utils/constants.js';
+import type { EventSourceConstructor, EventSourceLike, WebSocketLike } from '../types/connection.js';
+
+export interface SseTransportOptions {
+  /** Event stream URL, including the token */
+  streamUrl: string;
+
+  /** URL to post client frames to, for the client ID assigned by the server */
+  sendUrl: (clientId: string) => string;
+
+  /** Current token to authorize posted frames with */
+  getToken: () => string;
+
+  /** EventSource implementation */
+  EventSource: EventSourceConstructor;
+}
+
+/**
+ * HTTP fallback transport with a WebSocket-like interface
+ *
+ * Server frames arrive over Server-Sent Events; client frames are posted over HTTP.
+ */
+export class SseTransport implements WebSocketLike {
+  readyState: number = WS_READY_STATE.CONNECTING;
+
+  onopen: WebSocketLike['onopen'] = null;
+  onclose: WebSocketLike['onclose'] = null;
+  onerror: WebSocketLike['onerror'] = null;
+  onmessage: WebSocketLike['onmessage'] = null;
+
+  private readonly source: EventSourceLike;
+  private readonly sendUrl: (clientId: string) => string;
+  private readonly getToken: () => string;
+  private clientId: string | null = null;
+  /** Posts are chained so frames reach the server in order */
+  private sendQueue: Promise<void> = Promise.resolve();
+
+  constructor(options: SseTransportOptions) {
+    this.sendUrl = options.sendUrl;
+    this.getToken = options.getToken;
+
+    this.source = new options.EventSource(options.streamUrl);
+
+    this.source.onopen = (event) => {
+      this.readyState = WS_READY_STATE.OPEN;
+      this.onopen?.(event);
+    };
+
+    this.source.onmessage = (event) => {
+      this.rememberClientId(event.data);
+      this.onmessage?.(event);
+    };
+
+    this.source.onerror = (event) => {
+      // EventSource retries on its own; leave reconnection to WebSocketManager instead
+      this.onerror?.(event);
+      this.finish(1006, 'Event stream failed');
+    };
+  }
+
+  /**
+   * Post a frame to the server
+   */
+  send(data: string): void {
+    const clientId = this.clientId;
+    if (this.readyState !== WS_READY_STATE.OPEN || !clientId) {
+      throw new Error('SSE transport is not open');
+    }
+
+    this.sendQueue = this.sendQueue
+      .then(async () => {
+        const response = await fetch(this.sendUrl(clientId), {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${this.getToken()}`,
+          },
+          body: data,
+        });
+        if (!response.ok) {
+          throw new Error(`Failed to send frame: HTTP ${response.status}`);
+        }
+      })
+      .catch((error: unknown) => {
+        this.onerror?.(error);
+      });
+  }
+
+  /**
+   * Close the event stream
+   */
+  close(code = 1000, reason = ''): void {
+    this.finish(code, reason);
+  }
+
+  private finish(code: number, reason: string): void {
+    if (this.readyState === WS_READY_STATE.CLOSED) {
+      return;
+    }
+    this.readyState = WS_READY_STATE.CLOSED;
+    this.source.close();
+    this.onclose?.({ code, reason });
+  }
+
+  private rememberClientId(data: unknown): void {
+    try {
+      const frame = JSON.parse(String(data)) as { type?: string; clientId?: string };
+      if (frame.type === WS_SERVER_MESSAGES.CONNECTED && frame.clientId) {
+        this.clientId = frame.clientId;
+      }
+    } catch {
+      // Malformed frames are reported by the consumer
+    }
+  }
+}
@@ -0,0 +1,76 @@
+import { TypedEventEmitter, type EventHandler } from '../utils/EventEmitter.js';
+import type {
+  Message,
+  MessageEventType,
+  Subscription,
+  SubscriptionEventHandler,
+} from '../types/message.js';
+
+/**
+ * Per-event handlers of one subscription, keyed by event type (`'*'` for every message)
+ */
+class SubscriptionEvents extends TypedEventEmitter<Record<string, [Message]>> {
+  dispatch(message: Message): void {
+    this.emit(message.eventType, message);
+    this.emit('*', message);
+  }
+}
+
+/**
+ * Handle returned by `subscribe()`
+ *
+ * Routes the messages of its listener to handlers registered per event type, so consumers
+ * don't have to switch on `message.eventType` inside `onMessage`.
+ */
+export class SubscriptionHandle<TMessage = Message> implements Subscription<TMessage> {
+  readonly channel: string;
+  readonly ready: Promise<void>;
+  readonly unsubscribe: () => void;
+  private readonly events = new SubscriptionEvents();
+
+  constructor(channel: string, ready: Promise<void>, unsubscribe: () => void) {
+    this.channel = channel;
+    this.ready = ready;
+    this.unsubscribe = () => {
+      unsubscribe();
+      this.events.removeAllListeners();
+    };
+  }
+
+  on<TEventType extends MessageEventType<TMessage> | '*'>(
+    eventType: TEventType,
+    handler: SubscriptionEventHandler<TMessage, TEventType>
+  ): () => void {
+    this.events.on(eventType as string, handler as EventHandler<[Message]>);
+    return () => this.off(eventType, handler);
+  }
+
+  once<TEventType extends MessageEventType<TMessage> | '*'>(
+    eventType: TEventType,
+    handler: SubscriptionEventHandler<TMessage, TEventType>
+  ): () => void {
+    // Wrapped here rather than with the emitter's once(), so the returned function can remove it
+    const onceHandler: EventHandler<[Message]> = (message) => {
+      this.events.off(eventType as string, onceHandler);
+      (handler as EventHandler<[Message]>)(message);
+    };
+    this.events.on(eventType as string, onceHandler);
+    return () => {
+      this.events.off(eventType as string, onceHandler);
+    };
+  }
+
+  off<TEventType extends MessageEventType<TMessage> | '*'>(
+    eventType: TEventType,
+    handler: SubscriptionEventHandler<TMessage, TEventType>
+  ): void {
+    this.events.off(eventType as string, handler as EventHandler<[Message]>);
+  }
+
+  /**
+   * Pass a message received by this subscription's listener to its handlers
+   */
+  dispatch(message: Message): void {
+    this.events.dispatch(message);
+  }
+}
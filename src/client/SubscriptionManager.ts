@@ -1,36 +1,172 @@
-import type { Message, SubscriptionOptions } from '../types/message.js';
+import type { Message, SequenceGap, SubscriptionOptions } from '../types/message.js';
+import { PushFloError } from '../errors/PushFloError.js';
+import { ERROR_CODES } from '../utils/constants.js';
+import { decryptMessage } from '../utils/encryption.js';
+
+interface SubscriptionListener {
+  id: number;
+  options: SubscriptionOptions;
+  ready: Promise<void>;
+  /** Settles `ready`; null once settled */
+  pending: { resolve: () => void; reject: (error: Error) => void } | null;
+  /** `onSubscribed` ran on the current connection */
+  subscribed: boolean;
+  /** Decryption chain, so decrypted messages are delivered in order */
+  decrypting: Promise<void>;
+}
 
 interface SubscriptionEntry {
   channel: string;
-  options: SubscriptionOptions;
+  listeners: Map<number, SubscriptionListener>;
   confirmed: boolean;
+  lastSeen: LastSeenMessage | null;
+  recovery: RecoveryState | null;
+}
+
+interface RecoveryState {
+  id: number;
+  buffer: Message[];
+}
+
+/**
+ * The most recent message delivered on a channel
+ */
+export interface LastSeenMessage {
+  id: string;
+  timestamp: number;
+}
+
+/**
+ * Channel-level subscribe settings combined from all listeners
+ */
+export interface ChannelSubscribeOptions {
+  /** At least one listener marked the channel private */
+  isPrivate: boolean;
+
+  /** At least one listener uses an ack mode */
+  ack: boolean;
+
+  /** Event types any listener wants, sorted; null if a listener wants every event type */
+  eventTypes: string[] | null;
+}
+
+/**
+ * Options for the subscription manager
+ */
+export interface SubscriptionManagerOptions {
+  /** Check a message before it reaches `onMessage`; throws to reject it */
+  validate?: (message: Message) => Message;
 }
 
 /**
  * Manages channel subscriptions
+ *
+ * Each channel can have several independent listeners. The channel stays
+ * subscribed until its last listener is removed.
  */
 export class SubscriptionManager {
   private subscriptions: Map<string, SubscriptionEntry> = new Map();
+  private nextListenerId = 1;
+  private nextRecoveryId = 1;
+  private readonly validate?: (message: Message) => Message;
+
+  constructor(options: SubscriptionManagerOptions = {}) {
+    this.validate = options.validate;
+  }
 
   /**
-   * Add a subscription
+   * Add a listener to a channel
+   * @returns Listener ID to pass to `removeListener`
    */
-  add(channel: string, options: SubscriptionOptions = {}): void {
-    this.subscriptions.set(channel, {
-      channel,
-      options,
-      confirmed: false,
+  add(channel: string, options: SubscriptionOptions = {}): number {
+    const previousOptions = this.getSubscribeOptions(channel);
+    let entry = this.subscriptions.get(channel);
+    if (!entry) {
+      entry = {
+        channel,
+        listeners: new Map(),
+        confirmed: false,
+        lastSeen: null,
+        recovery: null,
+      };
+      this.subscriptions.set(channel, entry);
+    }
+
+    const id = this.nextListenerId++;
+    let pending: SubscriptionListener['pending'] = null;
+    const ready = new Promise<void>((resolve, reject) => {
+      pending = { resolve, reject };
     });
+    // Callers that never await `ready` must not see unhandled rejections
+    ready.catch(() => {});
+
+    const listener: SubscriptionListener = {
+      id,
+      options,
+      ready,
+      pending,
+      subscribed: false,
+      decrypting: Promise.resolve(),
+    };
+    entry.listeners.set(id, listener);
+
+    // Late listeners on a live channel are confirmed straight away, unless they widen the subscribe
+    // options; the server applies those only once it confirms the re-sent subscribe
+    if (entry.confirmed) {
+      if (sameSubscribeOptions(previousOptions, this.getSubscribeOptions(channel))) {
+        this.notifySubscribed(listener);
+      } else {
+        entry.confirmed = false;
+      }
+    }
+
+    return id;
+  }
+
+  /**
+   * Get the promise that settles when a listener's subscription is confirmed
+   */
+  getReady(channel: string, listenerId: number): Promise<void> | undefined {
+    return this.subscriptions.get(channel)?.listeners.get(listenerId)?.ready;
   }
 
   /**
-   * Remove a subscription
+   * Check if any listener on a channel is still waiting for confirmation
+   */
+  hasPendingReady(channel: string): boolean {
+    const entry = this.subscriptions.get(channel);
+    return entry ? Array.from(entry.listeners.values()).some((listener) => listener.pending !== null) : false;
+  }
+
+  /**
+   * Remove a single listener
+   * @returns true if the listener was removed
+   */
+  removeListener(channel: string, listenerId: number): boolean {
+    const entry = this.subscriptions.get(channel);
+    const listener = entry?.listeners.get(listenerId);
+    if (!entry || !listener) {
+      return false;
+    }
+
+    entry.listeners.delete(listenerId);
+    if (entry.listeners.size === 0) {
+      this.subscriptions.delete(channel);
+    }
+    this.rejectReady(listener, cancelledError(channel));
+    listener.options.onUnsubscribed?.();
+    return true;
+  }
+
+  /**
+   * Remove a channel and all of its listeners
    */
   remove(channel: string): boolean {
     const entry = this.subscriptions.get(channel);
     if (entry) {
       this.subscriptions.delete(channel);
-      entry.options.onUnsubscribed?.();
+      this.rejectAllReady(entry, cancelledError(channel));
+      this.eachListener(entry, (options) => options.onUnsubscribed?.());
       return true;
     }
     return false;
@@ -44,20 +180,55 @@ export class SubscriptionManager {
   }
 
   /**
-   * Get subscription options for a channel
+   * Get subscription options of the first listener on a channel
    */
   get(channel: string): SubscriptionOptions | undefined {
-    return this.subscriptions.get(channel)?.options;
+    const entry = this.subscriptions.get(channel);
+    return entry?.listeners.values().next().value?.options;
+  }
+
+  /**
+   * Get the number of listeners on a channel
+   */
+  listenerCount(channel: string): number {
+    return this.subscriptions.get(channel)?.listeners.size ?? 0;
+  }
+
+  /**
+   * Get the subscribe settings for a channel, combined from all its listeners
+   */
+  getSubscribeOptions(channel: string): ChannelSubscribeOptions {
+    const combined: ChannelSubscribeOptions = { isPrivate: false, ack: false, eventTypes: null };
+    const entry = this.subscriptions.get(channel);
+    if (entry) {
+      let eventTypes: Set<string> | null = new Set();
+      this.eachListener(entry, (options) => {
+        combined.isPrivate ||= options.isPrivate ?? false;
+        combined.ack ||= options.ack !== undefined;
+        if (!options.eventTypes) {
+          eventTypes = null;
+        } else {
+          options.eventTypes.forEach((eventType) => eventTypes?.add(eventType));
+        }
+      });
+      combined.eventTypes = eventTypes ? Array.from(eventTypes).sort() : null;
+    }
+    return combined;
   }
 
   /**
    * Mark subscription as confirmed
+   *
+   * Each listener is notified once per connection; listeners already notified are skipped when a
+   * subscribe re-sent for a widening listener is confirmed.
    */
   confirm(channel: string): void {
     const entry = this.subscriptions.get(channel);
     if (entry) {
       entry.confirmed = true;
-      entry.options.onSubscribed?.();
+      Array.from(entry.listeners.values())
+        .filter((listener) => !listener.subscribed)
+        .forEach((listener) => this.notifySubscribed(listener));
     }
   }
 
@@ -70,11 +241,136 @@ export class SubscriptionManager {
 
   /**
    * Handle incoming message
+   * @param sendAck - Sends the acknowledgement frame for subscriptions with an ack mode
    */
-  handleMessage(message: Message): void {
+  handleMessage(message: Message, sendAck?: (channel: string, messageId: string) => void): void {
     const entry = this.subscriptions.get(message.channel);
+    if (!entry) {
+      return;
+    }
+
+    entry.lastSeen = { id: message.id, timestamp: message.timestamp };
+
+    // The server receives a single ack once every acking listener is done
+    const listeners = Array.from(entry.listeners.values());
+    let pendingAcks = sendAck ? listeners.filter((listener) => listener.options.ack).length : 0;
+    const ackOnce = () => {
+      let acked = false;
+      return () => {
+        if (!acked) {
+          acked = true;
+          pendingAcks--;
+          if (pendingAcks === 0) {
+            sendAck!(message.channel, message.id);
+          }
+        }
+      };
+    };
+
+    listeners.forEach((listener) => {
+      const { options } = listener;
+      const ack = options.ack && sendAck ? ackOnce() : undefined;
+
+      // Enforce the event type filter in case the server did not; a filtered-out message needs no handling
+      if (options.eventTypes && !options.eventTypes.includes(message.eventType)) {
+        ack?.();
+        return;
+      }
+
+      if (!options.decryptionKey) {
+        this.deliverTo(options, message, ack);
+        return;
+      }
+
+      // Decryption is async; failures reach onError and the message is left unacked
+      const keys = options.decryptionKey;
+      listener.decrypting = listener.decrypting
+        .then(() => decryptMessage(message, keys, { allowUnencrypted: options.allowUnencrypted }))
+        .then(
+          (decrypted) => {
+            if (entry.listeners.get(listener.id) === listener) {
+              this.deliverTo(options, decrypted, ack);
+            }
+          },
+          (error: unknown) => {
+            options.onError?.(error instanceof Error ? error : new Error(String(error)));
+          }
+        );
+    });
+  }
+
+  /**
+   * Get the most recent message delivered on a channel
+   */
+  getLastSeen(channel: string): LastSeenMessage | null {
+    return this.subscriptions.get(channel)?.lastSeen ?? null;
+  }
+
+  /**
+   * Start buffering live messages on a channel while missed messages are backfilled
+   * @returns Recovery ID to pass to `finishRecovery`, or null if not subscribed
+   */
+  startRecovery(channel: string): number | null {
+    const entry = this.subscriptions.get(channel);
+    if (!entry) {
+      return null;
+    }
+    entry.recovery = { id: this.nextRecoveryId++, buffer: [] };
+    return entry.recovery.id;
+  }
+
+  /**
+   * Check if a channel is buffering live messages for recovery
+   */
+  isRecovering(channel: string): boolean {
+    return this.subscriptions.get(channel)?.recovery != null;
+  }
+
+  /**
+   * Get the ID of the in-progress recovery on a channel
+   */
+  getRecoveryId(channel: string): number | null {
+    return this.subscriptions.get(channel)?.recovery?.id ?? null;
+  }
+
+  /**
+   * Buffer a live message received during recovery
+   */
+  bufferMessage(message: Message): void {
+    this.subscriptions.get(message.channel)?.recovery?.buffer.push(message);
+  }
+
+  /**
+   * Stop buffering and return the buffered live messages
+   * @returns Buffered messages, or null if the recovery was superseded or the channel removed
+   */
+  finishRecovery(channel: string, recoveryId: number): Message[] | null {
+    const entry = this.subscriptions.get(channel);
+    if (!entry?.recovery || entry.recovery.id !== recoveryId) {
+      return null;
+    }
+    const { buffer } = entry.recovery;
+    entry.recovery = null;
+    return buffer;
+  }
+
+  /**
+   * Notify that missed messages were replayed on a channel
+   */
+  handleRecovered(channel: string, count: number): void {
+    const entry = this.subscriptions.get(channel);
+    if (entry) {
+      this.eachListener(entry, (options) => options.onRecovered?.(count));
+    }
+  }
+
+  /**
+   * Notify that sequence numbers were skipped on a channel
+   */
+  handleGap(gap: SequenceGap): void {
+    const entry = this.subscriptions.get(gap.channel);
     if (entry) {
-      entry.options.onMessage?.(message);
+      this.eachListener(entry, (options) => options.onGap?.(gap));
     }
   }
 
@@ -84,7 +380,8 @@ export class SubscriptionManager {
   handleError(channel: string, error: Error): void {
     const entry = this.subscriptions.get(channel);
     if (entry) {
-      entry.options.onError?.(error);
+      this.rejectAllReady(entry, error);
+      this.eachListener(entry, (options) => options.onError?.(error));
     }
   }
 
@@ -96,7 +393,7 @@ export class SubscriptionManager {
   }
 
   /**
-   * Get count of subscriptions
+   * Get count of subscribed channels
    */
   get size(): number {
     return this.subscriptions.size;
@@ -107,7 +404,8 @@ export class SubscriptionManager {
    */
   clear(): void {
     this.subscriptions.forEach((entry) => {
-      entry.options.onUnsubscribed?.();
+      this.rejectAllReady(entry, cancelledError(entry.channel));
+      this.eachListener(entry, (options) => options.onUnsubscribed?.());
     });
     this.subscriptions.clear();
   }
@@ -118,6 +416,86 @@ export class SubscriptionManager {
   resetConfirmations(): void {
     this.subscriptions.forEach((entry) => {
       entry.confirmed = false;
+      entry.listeners.forEach((listener) => {
+        listener.subscribed = false;
+      });
+    });
+  }
+
+  /**
+   * Call a listener's `onMessage`, acking according to its ack mode
+   * @param ack - Acknowledges the message for this listener (present when it uses an ack mode)
+   */
+  private deliverTo(options: SubscriptionOptions, received: Message, ack?: () => void): void {
+    // Rejected messages reach onError and are left unacked, like failed decryption
+    let message: Message;
+    try {
+      message = this.validate ? this.validate(received) : received;
+    } catch (error) {
+      options.onError?.(error instanceof Error ? error : new Error(String(error)));
+      return;
+    }
+
+    if (!ack) {
+      options.onMessage?.(message);
+      return;
+    }
+
+    if (options.ack === 'manual') {
+      options.onMessage?.({ ...message, ack });
+      return;
+    }
+
+    // Auto mode: ack only once the handler has finished, so a crash mid-handling leads to redelivery
+    let result: void | Promise<void>;
+    try {
+      result = options.onMessage?.(message);
+    } catch (error) {
+      options.onError?.(error instanceof Error ? error : new Error(String(error)));
+      return;
+    }
+
+    Promise.resolve(result).then(ack, (error: unknown) => {
+      options.onError?.(error instanceof Error ? error : new Error(String(error)));
     });
   }
+
+  private notifySubscribed(listener: SubscriptionListener): void {
+    listener.subscribed = true;
+    this.resolveReady(listener);
+    listener.options.onSubscribed?.();
+  }
+
+  private resolveReady(listener: SubscriptionListener): void {
+    listener.pending?.resolve();
+    listener.pending = null;
+  }
+
+  private rejectReady(listener: SubscriptionListener, error: Error): void {
+    listener.pending?.reject(error);
+    listener.pending = null;
+  }
+
+  private rejectAllReady(entry: SubscriptionEntry, error: Error): void {
+    entry.listeners.forEach((listener) => this.rejectReady(listener, error));
+  }
+
+  private eachListener(entry: SubscriptionEntry, fn: (options: SubscriptionOptions) => void): void {
+    // Copy so callbacks can add or remove listeners safely
+    Array.from(entry.listeners.values()).forEach((listener) => fn(listener.options));
+  }
+}
+
+/**
+ * Check if two combined subscribe settings would send the same subscribe frame
+ */
+export function sameSubscribeOptions(a: ChannelSubscribeOptions, b: ChannelSubscribeOptions): boolean {
+  return a.ack === b.ack && a.isPrivate === b.isPrivate && a.eventTypes?.join() === b.eventTypes?.join();
+}
+
+function cancelledError(channel: string): PushFloError {
+  return new PushFloError(
+    `Unsubscribed from '${channel}' before the subscription was confirmed`,
+    ERROR_CODES.INVALID_STATE
+  );
 }
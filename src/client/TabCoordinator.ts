@@ -0,0 +1,491 @@
+import { WS_CLIENT_MESSAGES, WS_SERVER_MESSAGES, WS_READY_STATE } from '../utils/constants.js';
+import { jsonCodec } from '../utils/codec.js';
+import type { Logger } from '../utils/logger.js';
+import type {
+  BroadcastChannelConstructor,
+  BroadcastChannelLike,
+  Codec,
+  LockManagerLike,
+  WebSocketLike,
+} from '../types/connection.js';
+
+export interface TabCoordinatorOptions {
+  /** Name of the lock and broadcast channel shared by the tabs */
+  name: string;
+
+  /** Web Locks implementation */
+  locks: LockManagerLike;
+
+  /** BroadcastChannel implementation */
+  BroadcastChannel: BroadcastChannelConstructor;
+
+  /** Open the server connection while this tab leads */
+  openUpstream: () => Promise<WebSocketLike>;
+
+  /** Codec offered to the server, to read binary frames */
+  codec: Codec;
+
+  logger: Logger;
+}
+
+/**
+ * The tab's end of the shared connection, fed by the leader
+ */
+export interface SharedConnectionEndpoint {
+  handleOpened(data: unknown): void;
+  handleFrame(data: unknown): void;
+  handleClose(code: number, reason: string): void;
+  handleLeaderChange(): void;
+}
+
+/** Messages exchanged between tabs */
+type TabMessage =
+  | { type: 'leader'; tabId: string }
+  | { type: 'open'; tabId: string }
+  | { type: 'send'; tabId: string; data: unknown }
+  | { type: 'leave'; tabId: string }
+  | { type: 'opened'; to: string; data: unknown }
+  | { type: 'frame'; to: string[]; data: unknown }
+  | { type: 'close'; to: string[]; code: number; reason: string };
+
+/** Fields of a frame the leader routes by */
+interface RoutedFrame {
+  type?: string;
+  channel?: string;
+  channels?: string[];
+  eventTypes?: string[];
+  requestId?: string;
+  codec?: string;
+}
+
+/**
+ * Elects one tab to own the server connection and relays frames between it and the other tabs
+ *
+ * Every tab runs a coordinator. The tab holding the Web Lock is the leader: it opens the
+ * connection, tracks which tabs subscribed to which channels, and fans server frames out over
+ * a BroadcastChannel. When the leader closes, the lock passes to another tab, which announces
+ * itself so the remaining tabs reconnect through it.
+ *
+ * Each tab also holds a lock of its own for as long as it lives. The leader queues for the lock of
+ * every tab it serves; the browser releases the locks of a crashed or killed tab, so the leader is
+ * granted the lock and drops the tab even though it never sent `'leave'`.
+ */
+export class TabCoordinator {
+  readonly tabId = `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 10)}`;
+
+  private readonly options: TabCoordinatorOptions;
+  private readonly channel: BroadcastChannelLike;
+  private readonly abort = new AbortController();
+  private releaseLock: (() => void) | null = null;
+  private releaseTabLock: (() => void) | null = null;
+  private endpoint: SharedConnectionEndpoint | null = null;
+  private destroyed = false;
+
+  // Leader state
+  private isLeader = false;
+  private upstream: WebSocketLike | null = null;
+  private upstreamOpening = false;
+  /** The server's connected frame, replayed to tabs that join later */
+  private connectedFrame: unknown = null;
+  private wireCodec: Codec = jsonCodec;
+  /** Tabs using the connection */
+  private readonly tabs: Set<string> = new Set();
+  /** Tabs subscribed to each channel */
+  private readonly channels: Map<string, Set<string>> = new Map();
+  /** Tabs waiting for a pong, in the order their pings went upstream */
+  private pendingPongs: string[] = [];
+  /** Tabs whose lock this tab is queued for, to notice when they go away */
+  private readonly watchedTabs: Set<string> = new Set();
+
+  constructor(options: TabCoordinatorOptions) {
+    this.options = options;
+    this.channel = new options.BroadcastChannel(options.name);
+    this.channel.onmessage = (event) => this.handleMessage(event.data as TabMessage);
+
+    // Requested before this tab posts anything, so the leader always queues behind it
+    options.locks
+      .request(tabLockName(options.name, this.tabId), { signal: this.abort.signal }, () => new Promise((resolve) => {
+        this.releaseTabLock = resolve;
+      }))
+      .catch(() => {
+        // Aborted on destroy
+      });
+
+    options.locks
+      .request(options.name, { signal: this.abort.signal }, () => this.lead())
+      .catch(() => {
+        // Aborted on destroy
+      });
+
+    globalThis.addEventListener?.('pagehide', this.handlePageHide);
+  }
+
+  /**
+   * Connect an endpoint to the shared connection
+   */
+  attach(endpoint: SharedConnectionEndpoint): void {
+    this.endpoint = endpoint;
+    this.requestOpen();
+  }
+
+  /**
+   * Ask the leader to open the connection for this tab
+   */
+  requestOpen(): void {
+    this.post({ type: 'open', tabId: this.tabId });
+  }
+
+  /**
+   * Send a frame to the server through the leader
+   */
+  send(data: unknown): void {
+    this.post({ type: 'send', tabId: this.tabId, data });
+  }
+
+  /**
+   * Disconnect an endpoint, releasing its channels
+   */
+  detach(endpoint: SharedConnectionEndpoint): void {
+    if (this.endpoint === endpoint) {
+      this.endpoint = null;
+      this.post({ type: 'leave', tabId: this.tabId });
+    }
+  }
+
+  /**
+   * Leave the shared connection, handing leadership to another tab
+   */
+  destroy(): void {
+    if (this.destroyed) {
+      return;
+    }
+
+    if (this.endpoint) {
+      this.detach(this.endpoint);
+    }
+    if (this.isLeader) {
+      this.closeUpstream(1001, 'Shared connection leader left');
+    }
+
+    this.destroyed = true;
+    this.isLeader = false;
+    this.releaseLock?.();
+    this.releaseTabLock?.();
+    this.abort.abort();
+    this.channel.close();
+    globalThis.removeEventListener?.('pagehide', this.handlePageHide);
+  }
+
+  private readonly handlePageHide = (): void => {
+    this.destroy();
+  };
+
+  private lead(): Promise<void> {
+    if (this.destroyed) {
+      return Promise.resolve();
+    }
+
+    this.options.logger.debug('This tab now leads the shared connection');
+    this.isLeader = true;
+    this.post({ type: 'leader', tabId: this.tabId });
+
+    // Hold the lock until this tab leaves
+    return new Promise((resolve) => {
+      this.releaseLock = resolve;
+    });
+  }
+
+  private post(message: TabMessage): void {
+    if (this.destroyed) {
+      return;
+    }
+
+    this.channel.postMessage(message);
+    // BroadcastChannel does not deliver to the sender; deliver asynchronously as it would
+    queueMicrotask(() => this.handleMessage(message));
+  }
+
+  private handleMessage(message: TabMessage): void {
+    if (this.destroyed) {
+      return;
+    }
+
+    switch (message.type) {
+      case 'leader':
+        this.endpoint?.handleLeaderChange();
+        break;
+
+      case 'open':
+        if (this.isLeader) {
+          this.openFor(message.tabId);
+        }
+        break;
+
+      case 'send':
+        if (this.isLeader) {
+          this.forward(message.tabId, message.data);
+        }
+        break;
+
+      case 'leave':
+        if (this.isLeader) {
+          this.removeTab(message.tabId);
+        }
+        break;
+
+      case 'opened':
+        if (message.to === this.tabId) {
+          this.endpoint?.handleOpened(message.data);
+        }
+        break;
+
+      case 'frame':
+        if (message.to.includes(this.tabId)) {
+          this.endpoint?.handleFrame(message.data);
+        }
+        break;
+
+      case 'close':
+        if (message.to.includes(this.tabId)) {
+          this.endpoint?.handleClose(message.code, message.reason);
+        }
+        break;
+    }
+  }
+
+  private openFor(tabId: string): void {
+    this.tabs.add(tabId);
+    this.watchTab(tabId);
+
+    if (this.connectedFrame !== null) {
+      this.post({ type: 'opened', to: tabId, data: this.connectedFrame });
+      return;
+    }
+
+    if (this.upstream || this.upstreamOpening) {
+      return;
+    }
+
+    this.upstreamOpening = true;
+    this.options.openUpstream().then(
+      (ws) => {
+        this.upstreamOpening = false;
+        if (!this.isLeader || this.tabs.size === 0) {
+          ws.close();
+          return;
+        }
+
+        this.upstream = ws;
+        ws.onmessage = (event) => this.handleUpstreamFrame(event.data);
+        ws.onclose = (event) => this.handleUpstreamClose(event.code, event.reason);
+        ws.onerror = (event) => this.options.logger.error('Shared connection error:', event);
+      },
+      (error: unknown) => {
+        this.upstreamOpening = false;
+        this.handleUpstreamClose(1006, error instanceof Error ? error.message : 'Failed to open shared connection');
+      }
+    );
+  }
+
+  private handleUpstreamFrame(data: unknown): void {
+    const frame = this.decode(data);
+
+    if (frame?.type === WS_SERVER_MESSAGES.CONNECTED) {
+      this.connectedFrame = data;
+      this.wireCodec = frame.codec === this.options.codec.name ? this.options.codec : jsonCodec;
+      this.tabs.forEach((tabId) => this.post({ type: 'opened', to: tabId, data }));
+      return;
+    }
+
+    // Replies to publishes go back to the tab that sent them, with its own request ID
+    if (frame?.requestId?.includes(':')) {
+      const separator = frame.requestId.indexOf(':');
+      const tabId = frame.requestId.slice(0, separator);
+      const requestId = frame.requestId.slice(separator + 1);
+      this.post({ type: 'frame', to: [tabId], data: this.wireCodec.encode({ ...frame, requestId }) });
+      return;
+    }
+
+    // The server answers pings in order, so each pong goes to the tab whose ping is oldest;
+    // fanning it out would let every tab time a round trip it did not start
+    if (frame?.type === WS_SERVER_MESSAGES.PONG) {
+      const tabId = this.pendingPongs.shift();
+      if (tabId !== undefined) {
+        this.post({ type: 'frame', to: [tabId], data });
+      }
+      return;
+    }
+
+    // Messages only go to tabs subscribed to the channel
+    if (frame?.type === WS_SERVER_MESSAGES.MESSAGE && frame.channel) {
+      const subscribers = this.channels.get(frame.channel);
+      if (subscribers) {
+        this.post({ type: 'frame', to: Array.from(subscribers), data });
+      }
+      return;
+    }
+
+    this.post({ type: 'frame', to: Array.from(this.tabs), data });
+  }
+
+  private handleUpstreamClose(code: number, reason: string): void {
+    const tabs = Array.from(this.tabs);
+    this.upstream = null;
+    this.connectedFrame = null;
+    this.tabs.clear();
+    this.channels.clear();
+    this.pendingPongs = [];
+    this.post({ type: 'close', to: tabs, code, reason });
+  }
+
+  private forward(tabId: string, data: unknown): void {
+    if (!this.upstream || this.upstream.readyState !== WS_READY_STATE.OPEN) {
+      return;
+    }
+
+    const frame = this.decode(data);
+    switch (frame?.type) {
+      case WS_CLIENT_MESSAGES.SUBSCRIBE: {
+        const channels = frameChannels(frame);
+        // Other tabs may want event types this tab filters out, so channels they share get every event type
+        const sharedWithOtherTabs = channels.some((channel) =>
+          Array.from(this.channels.get(channel) ?? []).some((subscriber) => subscriber !== tabId));
+        channels.forEach((channel) => {
+          const subscribers = this.channels.get(channel) ?? new Set();
+          subscribers.add(tabId);
+          this.channels.set(channel, subscribers);
+        });
+        if (frame.eventTypes && sharedWithOtherTabs) {
+          const unfiltered = { ...frame };
+          delete unfiltered.eventTypes;
+          this.upstream.send(this.wireCodec.encode(unfiltered));
+          return;
+        }
+        break;
+      }
+
+      case WS_CLIENT_MESSAGES.UNSUBSCRIBE: {
+        // Keep the server subscription while another tab still listens
+        const released = frameChannels(frame).filter((channel) => {
+          const subscribers = this.channels.get(channel);
+          subscribers?.delete(tabId);
+          if (subscribers && subscribers.size > 0) {
+            return false;
+          }
+          this.channels.delete(channel);
+          return true;
+        });
+        if (released.length === 0) {
+          return;
+        }
+        if (frame.channels) {
+          this.upstream.send(this.wireCodec.encode({ ...frame, channels: released }));
+          return;
+        }
+        break;
+      }
+
+      case WS_CLIENT_MESSAGES.PING:
+        this.pendingPongs.push(tabId);
+        break;
+
+      case WS_CLIENT_MESSAGES.AUTH:
+        // The connection was opened with the leader's token, so only the leader refreshes it
+        if (tabId !== this.tabId) {
+          return;
+        }
+        break;
+    }
+
+    if (frame?.requestId !== undefined) {
+      this.upstream.send(this.wireCodec.encode({ ...frame, requestId: `${tabId}:${frame.requestId}` }));
+      return;
+    }
+    this.upstream.send(data as string | Uint8Array);
+  }
+
+  /**
+   * Drop a tab once its lock is released, which happens even if it crashes without leaving
+   */
+  private watchTab(tabId: string): void {
+    if (tabId === this.tabId || this.watchedTabs.has(tabId)) {
+      return;
+    }
+
+    this.watchedTabs.add(tabId);
+    this.options.locks
+      .request(tabLockName(this.options.name, tabId), { signal: this.abort.signal }, () => {
+        this.watchedTabs.delete(tabId);
+        if (this.isLeader && this.tabs.has(tabId)) {
+          this.options.logger.debug('Tab went away without leaving:', tabId);
+          this.removeTab(tabId);
+        }
+        return Promise.resolve();
+      })
+      .catch(() => {
+        // Aborted on destroy
+      });
+  }
+
+  private removeTab(tabId: string): void {
+    if (!this.tabs.delete(tabId)) {
+      return;
+    }
+
+    this.channels.forEach((subscribers, channel) => {
+      if (subscribers.delete(tabId) && subscribers.size === 0) {
+        this.channels.delete(channel);
+        if (this.upstream?.readyState === WS_READY_STATE.OPEN) {
+          this.upstream.send(this.wireCodec.encode({ type: WS_CLIENT_MESSAGES.UNSUBSCRIBE, channel }));
+        }
+      }
+    });
+
+    if (this.tabs.size === 0) {
+      this.closeUpstream(1000, 'No tabs connected');
+    }
+  }
+
+  private closeUpstream(code: number, reason: string): void {
+    const ws = this.upstream;
+    if (!ws) {
+      return;
+    }
+
+    ws.onmessage = null;
+    ws.onclose = null;
+    ws.onerror = null;
+    ws.close();
+    this.handleUpstreamClose(code, reason);
+  }
+
+  private decode(data: unknown): RoutedFrame | null {
+    try {
+      if (data instanceof ArrayBuffer) {
+        return this.options.codec.decode(new Uint8Array(data)) as RoutedFrame;
+      }
+      if (ArrayBuffer.isView(data)) {
+        return this.options.codec.decode(
+          new Uint8Array(data.buffer, data.byteOffset, data.byteLength)
+        ) as RoutedFrame;
+      }
+      return this.wireCodec.decode(String(data)) as RoutedFrame;
+    } catch {
+      return null;
+    }
+  }
+}
+
+/**
+ * Name of the lock a tab holds while it lives
+ */
+function tabLockName(name: string, tabId: string): string {
+  return `${name}:tab:${tabId}`;
+}
+
+/**
+ * Channels a subscribe or unsubscribe frame covers, batched or not
+ */
+function frameChannels(frame: RoutedFrame): string[] {
+  return frame.channels ?? (frame.channel ? [frame.channel] : []);
+}
@@ -1,21 +1,67 @@
 import { TypedEventEmitter } from '../utils/EventEmitter.js';
-import { DEFAULTS, WS_CLIENT_MESSAGES, WS_SERVER_MESSAGES } from '../utils/constants.js';
+import { DEFAULTS, WS_CLIENT_MESSAGES, WS_SERVER_MESSAGES, WS_READY_STATE, ERROR_CODES } from '../utils/constants.js';
 import { createLogger, type Logger } from '../utils/logger.js';
-import { calculateBackoff } from '../utils/retry.js';
+import { exponentialBackoff } from '../utils/retry.js';
+import { jsonCodec } from '../utils/codec.js';
+import { PushFloError } from '../errors/PushFloError.js';
 import { ConnectionError } from '../errors/ConnectionError.js';
 import { AuthenticationError } from '../errors/AuthenticationError.js';
 import { ConnectionStateMachine } from './ConnectionStateMachine.js';
 import { Heartbeat } from './Heartbeat.js';
-import type { ConnectionInfo, ConnectionState } from '../types/connection.js';
+import { LatencyTracker } from './LatencyTracker.js';
+import { SseTransport } from './SseTransport.js';
+import { NetworkMonitor, createBrowserNetworkStatus } from './NetworkMonitor.js';
+import { TabCoordinator } from './TabCoordinator.js';
+import { SharedTransport } from './SharedTransport.js';
+import type {
+  BroadcastChannelConstructor,
+  Codec,
+  ConnectionDetails,
+  ConnectionInfo,
+  ConnectionQuality,
+  ConnectionState,
+  EventSourceConstructor,
+  LatencyStats,
+  LatencyThresholds,
+  LockManagerLike,
+  NetworkStatusSource,
+  RetryStrategy,
+  SharedConnectionOptions,
+  TransportType,
+  WebSocketConstructor,
+  WebSocketHandshakeOptions,
+  WebSocketLike,
+} from '../types/connection.js';
 import type { WsClientMessage, WsServerMessage } from '../types/api.js';
 
 export interface WebSocketManagerOptions {
   /** API key for authentication */
-  apiKey: string;
+  apiKey?: string;
+
+  /** Fetch a short-lived token to authenticate with instead of the API key */
+  tokenProvider?: () => Promise<string>;
 
   /** Base URL for the API */
   baseUrl?: string;
 
+  /** WebSocket implementation (default: the global `WebSocket`) */
+  WebSocket?: WebSocketConstructor;
+
+  /** Handshake options passed to the WebSocket implementation */
+  webSocketOptions?: WebSocketHandshakeOptions;
+
+  /** Transport to connect with; `'auto'` falls back to SSE after repeated upgrade failures */
+  transport?: TransportType | 'auto';
+
+  /** Failed WebSocket upgrades before `'auto'` switches to SSE */
+  fallbackAfterFailures?: number;
+
+  /** EventSource implementation for the SSE fallback (default: the global `EventSource`) */
+  EventSource?: EventSourceConstructor;
+
+  /** Wire codec to offer the server (default: JSON) */
+  codec?: Codec;
+
   /** Connection timeout in milliseconds */
   connectionTimeout?: number;
 
@@ -25,6 +71,9 @@ export interface WebSocketManagerOptions {
   /** Enable automatic reconnection */
   autoReconnect?: boolean;
 
+  /** Retry a failed first connect with the reconnect backoff */
+  retryInitialConnect?: boolean;
+
   /** Maximum reconnection attempts (0 = infinite) */
   maxReconnectAttempts?: number;
 
@@ -34,55 +83,161 @@ export interface WebSocketManagerOptions {
   /** Maximum reconnection delay in milliseconds */
   maxReconnectDelay?: number;
 
+  /** Delay between reconnect attempts (default: exponential backoff from `reconnectDelay` to `maxReconnectDelay`) */
+  retryStrategy?: RetryStrategy;
+
+  /** Source of network and visibility changes (default: browser globals); `false` ignores them */
+  networkStatus?: NetworkStatusSource | false;
+
+  /** Disconnect once the page has been hidden this long, in milliseconds (0 = never) */
+  hiddenDisconnectDelay?: number;
+
+  /** Share one connection between browser tabs */
+  shared?: boolean | SharedConnectionOptions;
+
+  /** Round-trip times at which the connection quality becomes degraded or poor */
+  latencyThresholds?: Partial<LatencyThresholds>;
+
   /** Enable debug logging */
   debug?: boolean;
 }
 
+export interface SubscribeFrameOptions {
+  /** Signed grant for a private channel */
+  auth?: string;
+
+  /** Request at-least-once delivery with acknowledgements */
+  ack?: boolean;
+
+  /** Ask the server to send only these event types */
+  eventTypes?: string[];
+}
+
 interface WebSocketManagerEvents {
   [key: string]: unknown[];
   connected: [ConnectionInfo];
   disconnected: [reason?: string];
   message: [WsServerMessage];
   error: [Error];
+  online: [];
+  offline: [];
+  hidden: [];
+  visible: [];
+  qualityChange: [ConnectionQuality];
 }
 
 /**
  * Manages WebSocket connection to PushFlo
  */
 export class WebSocketManager extends TypedEventEmitter<WebSocketManagerEvents> {
-  private readonly options: Required<Omit<WebSocketManagerOptions, 'debug'>>;
+  private readonly options: Required<Omit<
+    WebSocketManagerOptions,
+    'debug' | 'tokenProvider' | 'WebSocket' | 'webSocketOptions' | 'EventSource' | 'codec' | 'networkStatus' | 'shared' | 'latencyThresholds' | 'retryStrategy'
+  >>;
+  private readonly tokenProvider?: () => Promise<string>;
+  private readonly webSocketImpl?: WebSocketConstructor;
+  private readonly webSocketOptions?: WebSocketHandshakeOptions;
+  private readonly eventSourceImpl?: EventSourceConstructor;
+  private readonly codec: Codec;
+  private readonly retryStrategy: RetryStrategy;
   private readonly logger: Logger;
   private readonly stateMachine: ConnectionStateMachine;
   private readonly heartbeat: Heartbeat;
+  private readonly latency: LatencyTracker;
+  private readonly networkMonitor: NetworkMonitor;
+  /** Coordinates the connection shared between tabs (null when each tab connects itself) */
+  private readonly coordinator: TabCoordinator | null;
 
-  private ws: WebSocket | null = null;
+  private ws: WebSocketLike | null = null;
   private connectionTimeoutId: ReturnType<typeof setTimeout> | null = null;
   private reconnectAttempt = 0;
+  /** Delay before the last reconnect attempt, passed to the retry strategy */
+  private previousReconnectDelay: number | null = null;
   private reconnectTimeoutId: ReturnType<typeof setTimeout> | null = null;
+  private tokenRefreshTimeoutId: ReturnType<typeof setTimeout> | null = null;
   private intentionalDisconnect = false;
   private clientId: string | null = null;
+  private authToken: string | null = null;
+  private activeTransport: TransportType;
+  /** Codec for the current connection; JSON until the server accepts the offered codec */
+  private wireCodec: Codec = jsonCodec;
+  /** Frames waiting behind a Blob that is still being read, to keep them in order */
+  private pendingFrames: Promise<void> | null = null;
+  /** Consecutive WebSocket connection attempts that failed before the server accepted them */
+  private upgradeFailures = 0;
+  private hiddenTimeoutId: ReturnType<typeof setTimeout> | null = null;
+  /** A reconnect is owed once the network is back and the page is visible */
+  private resumePending = false;
+  /** Disconnected because the page stayed hidden */
+  private hiddenPaused = false;
+  /** Error frame announcing why the server is about to close the connection */
+  private closeNotice: PushFloError | null = null;
+  /** Errors of the most recent attempts since the last successful connection, capped so endless retries stay bounded */
+  private attemptErrors: Error[] = [];
+  /** A `connect()` call waiting while the initial connect is retried */
+  private pendingConnect: {
+    promise: Promise<ConnectionInfo>;
+    resolve: (info: ConnectionInfo) => void;
+    reject: (error: Error) => void;
+  } | null = null;
 
   constructor(options: WebSocketManagerOptions) {
     super();
 
     this.options = {
-      apiKey: options.apiKey,
+      apiKey: options.apiKey ?? '',
       baseUrl: (options.baseUrl ?? DEFAULTS.BASE_URL).replace(/\/$/, ''),
       connectionTimeout: options.connectionTimeout ?? DEFAULTS.CONNECTION_TIMEOUT,
       heartbeatInterval: options.heartbeatInterval ?? DEFAULTS.HEARTBEAT_INTERVAL,
       autoReconnect: options.autoReconnect ?? true,
+      retryInitialConnect: options.retryInitialConnect ?? false,
       maxReconnectAttempts: options.maxReconnectAttempts ?? DEFAULTS.MAX_RECONNECT_ATTEMPTS,
       reconnectDelay: options.reconnectDelay ?? DEFAULTS.RECONNECT_DELAY,
       maxReconnectDelay: options.maxReconnectDelay ?? DEFAULTS.MAX_RECONNECT_DELAY,
+      transport: options.transport ?? 'auto',
+      fallbackAfterFailures: options.fallbackAfterFailures ?? DEFAULTS.FALLBACK_AFTER_FAILURES,
+      hiddenDisconnectDelay: options.hiddenDisconnectDelay ?? DEFAULTS.HIDDEN_DISCONNECT_DELAY,
     };
 
+    this.tokenProvider = options.tokenProvider;
+    this.webSocketImpl = options.WebSocket;
+    this.webSocketOptions = options.webSocketOptions;
+    this.eventSourceImpl = options.EventSource;
+    this.codec = options.codec ?? jsonCodec;
+    this.retryStrategy = options.retryStrategy ?? exponentialBackoff({
+      initialDelay: this.options.reconnectDelay,
+      maxDelay: this.options.maxReconnectDelay,
+    });
+    this.activeTransport = this.options.transport === 'sse' ? 'sse' : 'websocket';
     this.logger = createLogger({ debug: options.debug, prefix: '[PushFlo WS]' });
     this.stateMachine = new ConnectionStateMachine();
+    const latencyThresholds: LatencyThresholds = {
+      degraded: options.latencyThresholds?.degraded ?? DEFAULTS.LATENCY_DEGRADED_THRESHOLD,
+      poor: options.latencyThresholds?.poor ?? DEFAULTS.LATENCY_POOR_THRESHOLD,
+    };
+    this.latency = new LatencyTracker({
+      windowSize: DEFAULTS.LATENCY_WINDOW_SIZE,
+      thresholds: latencyThresholds,
+      onQualityChange: (quality) => this.emit('qualityChange', quality),
+    });
     this.heartbeat = new Heartbeat({
       interval: this.options.heartbeatInterval,
       onPing: () => this.sendPing(),
       onTimeout: () => this.handleHeartbeatTimeout(),
+      lateAfter: latencyThresholds.poor,
+      onLate: () => this.latency.markLate(),
+    });
+    this.networkMonitor = new NetworkMonitor({
+      source: options.networkStatus === false ? undefined : options.networkStatus ?? createBrowserNetworkStatus(),
+      onOffline: () => this.handleOffline(),
+      onOnline: () => this.handleOnline(),
+      onHidden: () => this.handleHidden(),
+      onVisible: () => this.handleVisible(),
     });
+    this.networkMonitor.start();
+    this.coordinator = options.shared
+      ? this.createCoordinator(options.shared === true ? {} : options.shared)
+      : null;
   }
 
   /**
@@ -92,6 +247,20 @@ export class WebSocketManager extends TypedEventEmitter<WebSocketManagerEvents>
     return this.stateMachine.state;
   }
 
+  /**
+   * Connection quality derived from heartbeat round-trip times
+   */
+  get quality(): ConnectionQuality {
+    return this.latency.quality;
+  }
+
+  /**
+   * Get heartbeat round-trip time statistics and the estimated server clock offset
+   */
+  getLatency(): LatencyStats {
+    return this.latency.getStats();
+  }
+
   /**
    * Get client ID (available after connected)
    */
@@ -99,10 +268,24 @@ export class WebSocketManager extends TypedEventEmitter<WebSocketManagerEvents>
     return this.clientId;
   }
 
+  /**
+   * Get the key or token the current connection authenticated with
+   */
+  getAuthToken(): string {
+    return this.authToken ?? this.options.apiKey;
+  }
+
+  /**
+   * Get details of the current connection state
+   */
+  get details(): ConnectionDetails {
+    return this.stateMachine.details;
+  }
+
   /**
    * Subscribe to state changes
    */
-  onStateChange(listener: (state: ConnectionState) => void): () => void {
+  onStateChange(listener: (state: ConnectionState, details: ConnectionDetails) => void): () => void {
     return this.stateMachine.onChange(listener);
   }
 
@@ -110,6 +293,12 @@ export class WebSocketManager extends TypedEventEmitter<WebSocketManagerEvents>
    * Connect to WebSocket server
    */
   async connect(): Promise<ConnectionInfo> {
+    if (this.pendingConnect) {
+      // Still retrying the initial connect; try again now rather than starting over
+      this.retryNow();
+      return this.pendingConnect.promise;
+    }
+
     if (this.stateMachine.isConnected) {
       throw new ConnectionError(
         'Already connected',
@@ -127,9 +316,45 @@ export class WebSocketManager extends TypedEventEmitter<WebSocketManagerEvents>
     }
 
     this.intentionalDisconnect = false;
+    this.resumePending = false;
+    this.hiddenPaused = false;
     this.clearReconnectTimeout();
+    this.reconnectAttempt = 0;
+    this.previousReconnectDelay = null;
+    this.attemptErrors = [];
+
+    if (!this.options.retryInitialConnect) {
+      return this.establishConnection();
+    }
+
+    // Settled by handleConnected, or by scheduleReconnect once it gives up
+    let resolve!: (info: ConnectionInfo) => void;
+    let reject!: (error: Error) => void;
+    const promise = new Promise<ConnectionInfo>((res, rej) => {
+      resolve = res;
+      reject = rej;
+    });
+    this.pendingConnect = { promise, resolve, reject };
+
+    this.establishConnection().catch((error: unknown) => {
+      this.logger.error('Connect failed:', error);
+      this.scheduleReconnect(error instanceof Error ? error : undefined);
+    });
+    return promise;
+  }
 
-    return this.establishConnection();
+  /**
+   * Run the next reconnect attempt now instead of waiting for its delay
+   */
+  retryNow(): void {
+    if (!this.stateMachine.isReconnecting || this.intentionalDisconnect) {
+      return;
+    }
+
+    this.logger.debug('Retrying connection now');
+    this.clearReconnectTimeout();
+    this.resumePending = false;
+    this.attemptReconnect();
   }
 
   /**
@@ -137,6 +362,10 @@ export class WebSocketManager extends TypedEventEmitter<WebSocketManagerEvents>
    */
   disconnect(): void {
     this.intentionalDisconnect = true;
+    this.resumePending = false;
+    this.hiddenPaused = false;
+    this.rejectPendingConnect(cancelledError());
+    this.clearReconnectTimeout();
     this.cleanup();
     this.stateMachine.transition('disconnected');
     this.emit('disconnected', 'Disconnected by client');
@@ -146,12 +375,12 @@ export class WebSocketManager extends TypedEventEmitter<WebSocketManagerEvents>
    * Send a message to the server
    */
   send(message: WsClientMessage): boolean {
-    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
+    if (!this.ws || this.ws.readyState !== WS_READY_STATE.OPEN) {
       return false;
     }
 
     try {
-      this.ws.send(JSON.stringify(message));
+      this.ws.send(this.wireCodec.encode(message));
       this.logger.debug('Sent message:', message);
       return true;
     } catch (error) {
@@ -163,10 +392,29 @@ export class WebSocketManager extends TypedEventEmitter<WebSocketManagerEvents>
   /**
    * Subscribe to a channel
    */
-  subscribe(channel: string): boolean {
+  subscribe(channel: string, options: SubscribeFrameOptions = {}): boolean {
     return this.send({
       type: WS_CLIENT_MESSAGES.SUBSCRIBE,
       channel,
+      ...(options.auth !== undefined && { auth: options.auth }),
+      ...(options.ack && { ack: true }),
+      ...(options.eventTypes && { eventTypes: options.eventTypes }),
+    });
+  }
+
+  /**
+   * Subscribe to several channels with one frame
+   */
+  subscribeMany(channels: string[], options: SubscribeFrameOptions = {}): boolean {
+    if (channels.length === 1) {
+      return this.subscribe(channels[0]!, options);
+    }
+
+    return this.send({
+      type: WS_CLIENT_MESSAGES.SUBSCRIBE,
+      channels,
+      ...(options.ack && { ack: true }),
+      ...(options.eventTypes && { eventTypes: options.eventTypes }),
     });
   }
 
@@ -180,33 +428,70 @@ export class WebSocketManager extends TypedEventEmitter<WebSocketManagerEvents>
     });
   }
 
+  /**
+   * Unsubscribe from several channels with one frame
+   */
+  unsubscribeMany(channels: string[]): boolean {
+    if (channels.length === 1) {
+      return this.unsubscribe(channels[0]!);
+    }
+
+    return this.send({
+      type: WS_CLIENT_MESSAGES.UNSUBSCRIBE,
+      channels,
+    });
+  }
+
+  /**
+   * Acknowledge a message
+   */
+  ack(channel: string, messageId: string): boolean {
+    return this.send({
+      type: WS_CLIENT_MESSAGES.ACK,
+      channel,
+      messageId,
+    });
+  }
+
   /**
    * Clean up resources
    */
   destroy(): void {
     this.intentionalDisconnect = true;
+    this.rejectPendingConnect(cancelledError());
+    this.networkMonitor.stop();
+    this.clearReconnectTimeout();
     this.cleanup();
+    this.coordinator?.destroy();
     this.removeAllListeners();
     this.stateMachine.removeAllListeners();
   }
 
   private async establishConnection(): Promise<ConnectionInfo> {
-    this.stateMachine.transition('connecting');
+    this.stateMachine.transition('connecting', { attempt: this.reconnectAttempt });
     this.logger.debug('Connecting...');
 
+    // Fetch a fresh token on every attempt; the static API key needs no round trip
+    const token = this.tokenProvider ? await this.fetchToken() : this.options.apiKey;
+
+    if (!this.stateMachine.isConnecting) {
+      throw cancelledError();
+    }
+
+    this.authToken = token;
+    this.wireCodec = jsonCodec;
+
     return new Promise((resolve, reject) => {
       try {
-        const wsUrl = this.buildWsUrl();
-        this.logger.debug('WebSocket URL:', wsUrl);
-
-        this.ws = new WebSocket(wsUrl);
+        this.ws = this.createTransport(token);
 
         // Set connection timeout
         this.connectionTimeoutId = setTimeout(() => {
           if (this.stateMachine.isConnecting) {
             const error = ConnectionError.timeout(this.options.connectionTimeout);
+            this.recordUpgradeFailure();
             this.cleanup();
-            this.stateMachine.transition('error');
+            this.stateMachine.transition('error', { lastError: error });
             this.emit('error', error);
             reject(error);
           }
@@ -225,35 +510,217 @@ export class WebSocketManager extends TypedEventEmitter<WebSocketManagerEvents>
         };
 
         this.ws.onmessage = (event) => {
-          this.handleMessage(event, resolve, reject);
+          this.receiveFrame(event.data, resolve, reject);
         };
       } catch (error) {
+        this.recordUpgradeFailure();
         this.cleanup();
-        this.stateMachine.transition('error');
         const connError = ConnectionError.failed(
           error instanceof Error ? error.message : 'Unknown error',
           error instanceof Error ? error : undefined
         );
+        this.stateMachine.transition('error', { lastError: connError });
         this.emit('error', connError);
         reject(connError);
       }
     });
   }
 
-  private buildWsUrl(): string {
+  private async fetchToken(): Promise<string> {
+    try {
+      const token = await this.tokenProvider!();
+      if (!token) {
+        throw new Error('Token provider returned an empty token');
+      }
+      return token;
+    } catch (error) {
+      const tokenError = new AuthenticationError(
+        `Failed to fetch client token: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        ERROR_CODES.TOKEN_FETCH_FAILED,
+        { retryable: true, cause: error instanceof Error ? error : undefined }
+      );
+
+      // The attempt may have been abandoned while the token was being fetched
+      if (this.stateMachine.isConnecting) {
+        this.stateMachine.transition('error', { lastError: tokenError });
+        this.emit('error', tokenError);
+      }
+      throw tokenError;
+    }
+  }
+
+  private createTransport(token: string): WebSocketLike {
+    if (this.coordinator) {
+      return new SharedTransport(this.coordinator);
+    }
+    return this.createDirectTransport(token);
+  }
+
+  private createDirectTransport(token: string): WebSocketLike {
+    if (this.activeTransport === 'sse') {
+      const EventSourceImpl = this.getEventSourceImpl();
+      if (!EventSourceImpl) {
+        throw new Error('No EventSource implementation available; pass one through the EventSource option');
+      }
+
+      const streamUrl = `${this.options.baseUrl}${DEFAULTS.SSE_PATH}?token=${encodeURIComponent(token)}`;
+      this.logger.debug('SSE URL:', streamUrl);
+      return new SseTransport({
+        streamUrl,
+        sendUrl: (clientId) => `${this.options.baseUrl}${DEFAULTS.SSE_PATH}/${encodeURIComponent(clientId)}`,
+        getToken: () => this.getAuthToken(),
+        EventSource: EventSourceImpl,
+      });
+    }
+
+    const wsUrl = this.buildWsUrl(token);
+    this.logger.debug('WebSocket URL:', wsUrl);
+    const ws = this.createWebSocket(wsUrl);
+    // Binary frames as ArrayBuffer rather than Blob, so they can be decoded synchronously
+    ws.binaryType = 'arraybuffer';
+    return ws;
+  }
+
+  private createCoordinator(shared: SharedConnectionOptions): TabCoordinator | null {
+    const locks = shared.locks ?? (globalThis.navigator as { locks?: LockManagerLike } | undefined)?.locks;
+    const BroadcastChannelImpl = shared.BroadcastChannel ??
+      (globalThis.BroadcastChannel as BroadcastChannelConstructor | undefined);
+    if (!locks || !BroadcastChannelImpl) {
+      this.logger.warn('Shared connections need BroadcastChannel and Web Locks; connecting from this tab');
+      return null;
+    }
+
+    return new TabCoordinator({
+      name: shared.name ?? `pushflo:${this.options.baseUrl}:${this.options.apiKey}`,
+      locks,
+      BroadcastChannel: BroadcastChannelImpl,
+      codec: this.codec,
+      logger: this.logger,
+      // The leader opens the real connection with its own credentials
+      openUpstream: async () => {
+        const token = this.tokenProvider ? await this.tokenProvider() : this.options.apiKey;
+        return this.createDirectTransport(token);
+      },
+    });
+  }
+
+  private getEventSourceImpl(): EventSourceConstructor | undefined {
+    return this.eventSourceImpl ?? (globalThis.EventSource as EventSourceConstructor | undefined);
+  }
+
+  /**
+   * Count a WebSocket attempt that never got accepted, switching to SSE once there were too many
+   */
+  private recordUpgradeFailure(): void {
+    if (this.activeTransport !== 'websocket' || this.options.transport !== 'auto') {
+      return;
+    }
+
+    this.upgradeFailures++;
+    if (this.upgradeFailures >= this.options.fallbackAfterFailures && this.getEventSourceImpl()) {
+      this.logger.warn(`WebSocket failed ${this.upgradeFailures} times, switching to SSE fallback`);
+      this.activeTransport = 'sse';
+    }
+  }
+
+  private createWebSocket(url: string): WebSocketLike {
+    const WebSocketImpl = this.webSocketImpl ?? (globalThis.WebSocket as WebSocketConstructor | undefined);
+    if (!WebSocketImpl) {
+      throw new Error('No WebSocket implementation available; pass one through the WebSocket option');
+    }
+
+    if (!this.webSocketOptions) {
+      return new WebSocketImpl(url);
+    }
+    const { protocols, ...options } = this.webSocketOptions;
+    return new WebSocketImpl(url, protocols, options);
+  }
+
+  private buildWsUrl(token: string): string {
     const baseUrl = this.options.baseUrl;
     const protocol = baseUrl.startsWith('https') ? 'wss' : 'ws';
     const host = baseUrl.replace(/^https?:\/\//, '');
-    return `${protocol}://${host}${DEFAULTS.WS_PATH}?token=${encodeURIComponent(this.options.apiKey)}`;
+    const codec = this.codec === jsonCodec ? '' : `&codec=${encodeURIComponent(this.codec.name)}`;
+    return `${protocol}://${host}${DEFAULTS.WS_PATH}?token=${encodeURIComponent(token)}${codec}`;
+  }
+
+  private scheduleTokenRefresh(expiresAt: number | undefined): void {
+    this.clearTokenRefreshTimeout();
+
+    if (!this.tokenProvider || expiresAt === undefined) {
+      return;
+    }
+
+    const delay = Math.max(0, expiresAt - Date.now() - DEFAULTS.TOKEN_REFRESH_MARGIN);
+    this.logger.debug(`Scheduling token refresh in ${delay}ms`);
+
+    this.tokenRefreshTimeoutId = setTimeout(() => {
+      this.tokenRefreshTimeoutId = null;
+      this.refreshToken();
+    }, delay);
+  }
+
+  private refreshToken(): void {
+    this.tokenProvider!()
+      .then((token) => {
+        if (!this.send({ type: WS_CLIENT_MESSAGES.AUTH, token })) {
+          this.logger.debug('Socket closed before refreshed token could be sent');
+          return;
+        }
+        this.authToken = token;
+      })
+      .catch((error: unknown) => {
+        // The server closes the socket on expiry; the reconnect fetches a new token
+        this.logger.error('Token refresh failed:', error);
+        this.emit('error', new AuthenticationError(
+          `Failed to refresh client token: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          ERROR_CODES.TOKEN_FETCH_FAILED,
+          { retryable: true, cause: error instanceof Error ? error : undefined }
+        ));
+      });
+  }
+
+  /**
+   * Route a raw frame to `handleMessage`, reading Blob frames first without reordering
+   */
+  private receiveFrame(
+    data: unknown,
+    onConnect?: (info: ConnectionInfo) => void,
+    onConnectError?: (error: Error) => void
+  ): void {
+    const isBlob = typeof Blob !== 'undefined' && data instanceof Blob;
+    if (!isBlob && !this.pendingFrames) {
+      this.handleMessage(data, onConnect, onConnectError);
+      return;
+    }
+
+    const ws = this.ws;
+    const pending = (this.pendingFrames ?? Promise.resolve())
+      .then(async () => {
+        const frame = isBlob ? await (data as Blob).arrayBuffer() : data;
+        // Skip frames from a connection that has since been replaced
+        if (this.ws === ws) {
+          this.handleMessage(frame, onConnect, onConnectError);
+        }
+      })
+      .catch((error: unknown) => {
+        this.logger.error('Failed to read binary frame:', error);
+      })
+      .finally(() => {
+        if (this.pendingFrames === pending) {
+          this.pendingFrames = null;
+        }
+      });
+    this.pendingFrames = pending;
   }
 
   private handleMessage(
-    event: MessageEvent,
+    data: unknown,
     onConnect?: (info: ConnectionInfo) => void,
     onConnectError?: (error: Error) => void
   ): void {
     try {
-      const message = JSON.parse(event.data as string) as WsServerMessage;
+      const message = this.decodeFrame(data);
       this.logger.debug('Received message:', message);
 
       switch (message.type) {
@@ -261,9 +728,18 @@ export class WebSocketManager extends TypedEventEmitter<WebSocketManagerEvents>
           this.handleConnected(message, onConnect);
           break;
 
-        case WS_SERVER_MESSAGES.PONG:
-          this.heartbeat.receivedPong();
+        case WS_SERVER_MESSAGES.AUTHENTICATED:
+          this.logger.debug('Token refreshed, expires at:', message.expiresAt);
+          this.scheduleTokenRefresh(message.expiresAt);
+          break;
+
+        case WS_SERVER_MESSAGES.PONG: {
+          const rtt = this.heartbeat.receivedPong();
+          if (rtt !== null) {
+            this.latency.record(rtt, message.timestamp);
+          }
           break;
+        }
 
         case WS_SERVER_MESSAGES.ERROR:
           this.handleErrorMessage(message, onConnectError);
@@ -278,6 +754,16 @@ export class WebSocketManager extends TypedEventEmitter<WebSocketManagerEvents>
     }
   }
 
+  private decodeFrame(data: unknown): WsServerMessage {
+    if (data instanceof ArrayBuffer) {
+      return this.codec.decode(new Uint8Array(data)) as WsServerMessage;
+    }
+    if (ArrayBuffer.isView(data)) {
+      return this.codec.decode(new Uint8Array(data.buffer, data.byteOffset, data.byteLength)) as WsServerMessage;
+    }
+    return this.wireCodec.decode(String(data)) as WsServerMessage;
+  }
+
   private handleConnected(
     message: WsServerMessage,
     onConnect?: (info: ConnectionInfo) => void
@@ -288,32 +774,63 @@ export class WebSocketManager extends TypedEventEmitter<WebSocketManagerEvents>
       this.clientId = message.clientId;
     }
 
+    // Use the offered codec only once the server has accepted it; the SSE fallback is text-only
+    const accepted = this.activeTransport === 'websocket' && message.codec === this.codec.name;
+    this.wireCodec = accepted ? this.codec : jsonCodec;
+    if (this.wireCodec !== this.codec && this.activeTransport === 'websocket') {
+      this.logger.warn(`Server did not accept the ${this.codec.name} codec, using json`);
+    }
+
     const connectionInfo: ConnectionInfo = {
       clientId: message.clientId ?? '',
       timestamp: message.timestamp ?? Date.now(),
+      expiresAt: message.expiresAt,
+      transport: this.activeTransport,
     };
 
+    // Estimate the clock offset with the last known round trip, then measure the new connection afresh
+    if (message.timestamp !== undefined) {
+      this.latency.syncClock(message.timestamp);
+    }
+    this.latency.reset();
+
     this.reconnectAttempt = 0;
-    this.stateMachine.transition('connected');
+    this.previousReconnectDelay = null;
+    this.upgradeFailures = 0;
+    this.stateMachine.transition('connected', { attempt: 0 });
     this.heartbeat.start();
+    this.scheduleTokenRefresh(message.expiresAt);
+    if (!this.networkMonitor.isVisible) {
+      this.startHiddenTimeout();
+    }
+
+    this.attemptErrors = [];
 
     this.logger.debug('Connected:', connectionInfo);
     this.emit('connected', connectionInfo);
     onConnect?.(connectionInfo);
+
+    this.pendingConnect?.resolve(connectionInfo);
+    this.pendingConnect = null;
   }
 
   private handleErrorMessage(
     message: WsServerMessage,
     onConnectError?: (error: Error) => void
   ): void {
-    const errorMsg = message.error ?? 'Unknown error';
-    const code = message.code;
+    // Channel- and request-scoped errors belong to the subscription or publish, not the connection
+    if (message.channel || message.requestId) {
+      this.emit('message', message);
+      return;
+    }
 
-    let error: Error;
-    if (code === 'UNAUTHORIZED' || code === 'INVALID_TOKEN') {
-      error = AuthenticationError.unauthorized(errorMsg);
-    } else {
-      error = new ConnectionError(errorMsg, code ?? 'UNKNOWN');
+    const error = this.createServerError(message);
+
+    // A going-away notice is not a failure; move to another server before this one closes
+    if (error.code === ERROR_CODES.SERVER_GOING_AWAY && this.stateMachine.isConnected) {
+      this.logger.debug('Server going away, reconnecting');
+      this.dropConnection('Server going away', this.options.autoReconnect, error);
+      return;
     }
 
     this.emit('error', error);
@@ -321,94 +838,273 @@ export class WebSocketManager extends TypedEventEmitter<WebSocketManagerEvents>
     // If still connecting, reject the promise
     if (this.stateMachine.isConnecting) {
       this.cleanup();
-      this.stateMachine.transition('error');
+      this.stateMachine.transition('error', { lastError: error });
       onConnectError?.(error);
+      return;
+    }
+
+    // Errors that decide how to reconnect apply to the close that follows them
+    if (!error.retryable || (error instanceof ConnectionError && error.retryAfter !== undefined)) {
+      this.closeNotice = error;
+    }
+  }
+
+  private createServerError(message: WsServerMessage): PushFloError {
+    const errorMsg = message.error ?? 'Unknown error';
+    const retryAfter = message.retryAfter !== undefined ? message.retryAfter * 1000 : undefined;
+
+    switch (message.code) {
+      case ERROR_CODES.UNAUTHORIZED:
+      case ERROR_CODES.INVALID_TOKEN:
+        return AuthenticationError.unauthorized(errorMsg);
+
+      case ERROR_CODES.INVALID_API_KEY:
+      case ERROR_CODES.FORBIDDEN:
+        return new AuthenticationError(errorMsg, message.code);
+
+      case ERROR_CODES.TOKEN_EXPIRED:
+        return new ConnectionError(errorMsg, ERROR_CODES.TOKEN_EXPIRED, { retryAfter: 0 });
+
+      case ERROR_CODES.GOING_AWAY:
+      case ERROR_CODES.SERVER_GOING_AWAY:
+        return new ConnectionError(errorMsg, ERROR_CODES.SERVER_GOING_AWAY, { retryAfter: retryAfter ?? 0 });
+
+      default:
+        return new ConnectionError(errorMsg, message.code ?? 'UNKNOWN', { retryAfter });
     }
   }
 
   private handleClose(
-    event: CloseEvent,
+    event: { code: number; reason: string },
     onConnectError?: (error: Error) => void
   ): void {
     this.logger.debug('WebSocket closed:', event.code, event.reason);
 
     const wasConnected = this.stateMachine.isConnected;
+    const notice = this.closeNotice;
     this.cleanup();
 
     if (this.intentionalDisconnect) {
-      this.stateMachine.transition('disconnected');
+      this.stateMachine.transition('disconnected', { lastCloseCode: event.code });
       return;
     }
 
+    const closeError = notice ?? ConnectionError.fromCloseCode(event.code, event.reason || undefined);
+
     // If we were connecting, reject with error
     if (this.stateMachine.isConnecting) {
-      this.stateMachine.transition('error');
-      const error = ConnectionError.failed(event.reason || 'Connection closed');
+      this.recordUpgradeFailure();
+      const error = closeError.code === ERROR_CODES.CONNECTION_CLOSED
+        ? ConnectionError.failed(event.reason || 'Connection closed')
+        : closeError;
+      this.stateMachine.transition('error', { lastError: error, lastCloseCode: event.code });
       this.emit('error', error);
       onConnectError?.(error);
       return;
     }
 
-    // Handle unexpected disconnect
-    this.stateMachine.transition('disconnected');
+    // Handle unexpected disconnect, reconnecting if enabled and the server allows it
+    const reconnect = wasConnected && this.options.autoReconnect;
+    let state: ConnectionState = reconnect ? 'reconnecting' : 'disconnected';
+    if (reconnect && !closeError.retryable) {
+      this.logger.error('Server refused the connection, not reconnecting:', closeError.message);
+      state = 'failed';
+    }
+    this.stateMachine.transition(state, { lastError: closeError, lastCloseCode: event.code });
     this.emit('disconnected', event.reason || undefined);
 
-    // Try to reconnect if enabled
-    if (wasConnected && this.options.autoReconnect) {
-      this.scheduleReconnect();
+    // Refusals are errors in their own right; error frames were reported on arrival
+    if (!closeError.retryable && !notice) {
+      this.emit('error', closeError);
+    }
+
+    if (state === 'reconnecting') {
+      this.scheduleReconnect(closeError);
     }
   }
 
   private handleHeartbeatTimeout(): void {
     this.logger.warn('Heartbeat timeout, reconnecting...');
+    this.dropConnection('Heartbeat timeout', this.options.autoReconnect);
+  }
+
+  private handleOffline(): void {
+    this.logger.debug('Network offline');
+    this.emit('offline');
+
+    if (this.reconnectTimeoutId !== null) {
+      this.clearReconnectTimeout();
+      this.resumePending = true;
+      this.stateMachine.transition('reconnecting', { attempt: this.reconnectAttempt + 1 });
+    }
+
+    // The socket cannot survive without a network; don't wait for the heartbeat to notice
+    if (this.stateMachine.isConnected) {
+      this.dropConnection('Network offline', this.options.autoReconnect);
+    }
+  }
+
+  private handleOnline(): void {
+    this.logger.debug('Network online');
+    this.emit('online');
+
+    if (this.resumePending && !this.hiddenPaused) {
+      this.resume();
+    }
+  }
+
+  private handleHidden(): void {
+    this.logger.debug('Page hidden');
+    this.emit('hidden');
+
+    if (this.stateMachine.isConnected) {
+      this.startHiddenTimeout();
+    }
+  }
+
+  private handleVisible(): void {
+    this.logger.debug('Page visible');
+    this.emit('visible');
+    this.clearHiddenTimeout();
+
+    if (this.hiddenPaused) {
+      this.hiddenPaused = false;
+      if (this.resumePending && this.networkMonitor.isOnline) {
+        this.resume();
+      }
+    }
+  }
+
+  private startHiddenTimeout(): void {
+    if (this.options.hiddenDisconnectDelay <= 0) {
+      return;
+    }
+
+    this.clearHiddenTimeout();
+    this.hiddenTimeoutId = setTimeout(() => {
+      this.hiddenTimeoutId = null;
+      this.logger.debug('Page hidden too long, disconnecting until visible');
+      this.dropConnection('Page hidden', false);
+      this.hiddenPaused = true;
+      this.resumePending = true;
+    }, this.options.hiddenDisconnectDelay);
+  }
+
+  /**
+   * Reconnect right away, skipping the backoff accumulated before the pause
+   */
+  private resume(): void {
+    this.resumePending = false;
+    if (this.intentionalDisconnect || this.stateMachine.isConnected || this.stateMachine.isConnecting) {
+      return;
+    }
+
+    this.logger.debug('Resuming connection');
+    this.clearReconnectTimeout();
+    this.reconnectAttempt = 0;
+    this.previousReconnectDelay = null;
+    this.attemptReconnect();
+  }
+
+  /**
+   * Close the connection without counting it as intentional, so it can be resumed
+   */
+  private dropConnection(reason: string, reconnect: boolean, error?: ConnectionError): void {
     this.cleanup();
-    this.stateMachine.transition('disconnected');
-    this.emit('disconnected', 'Heartbeat timeout');
+    this.stateMachine.transition(reconnect ? 'reconnecting' : 'disconnected');
+    this.emit('disconnected', reason);
 
-    if (this.options.autoReconnect) {
-      this.scheduleReconnect();
+    if (reconnect) {
+      this.scheduleReconnect(error);
     }
   }
 
-  private scheduleReconnect(): void {
+  /**
+   * Schedule the next reconnect attempt, following the reconnect policy of the error that ended the last one
+   *
+   * Errors that are not retryable stop reconnecting, and a `retryAfter` replaces the retry strategy's delay.
+   */
+  private scheduleReconnect(error?: Error): void {
     if (this.intentionalDisconnect) {
       return;
     }
 
-    const { maxReconnectAttempts } = this.options;
-    if (maxReconnectAttempts > 0 && this.reconnectAttempt >= maxReconnectAttempts) {
-      this.logger.error('Max reconnect attempts reached');
-      this.stateMachine.transition('error');
-      this.emit('error', new ConnectionError(
-        'Max reconnection attempts exceeded',
-        'MAX_RECONNECT_ATTEMPTS',
-        { retryable: false }
-      ));
+    if (error) {
+      this.attemptErrors.push(error);
+      if (this.attemptErrors.length > DEFAULTS.MAX_ATTEMPT_ERRORS) {
+        this.attemptErrors.shift();
+      }
+    }
+
+    // The server refused the connection; retrying would only repeat the refusal
+    if (error instanceof PushFloError && !error.retryable) {
+      this.logger.error('Not reconnecting:', error.message);
+      this.stateMachine.transition('failed', { lastError: error });
+      this.rejectPendingConnect(error);
       return;
     }
 
-    const delay = calculateBackoff(this.reconnectAttempt, {
-      initialDelay: this.options.reconnectDelay,
-      maxDelay: this.options.maxReconnectDelay,
+    // Backing off while offline only delays the reconnect once the network returns
+    if (!this.networkMonitor.isOnline) {
+      this.logger.debug('Offline, waiting for the network before reconnecting');
+      this.resumePending = true;
+      this.stateMachine.transition('reconnecting', { attempt: this.reconnectAttempt + 1 });
+      return;
+    }
+
+    const retryAfter = error instanceof ConnectionError ? error.retryAfter : undefined;
+    const delay = retryAfter ?? this.retryStrategy.nextDelay({
+      attempt: this.reconnectAttempt,
+      error,
+      previousDelay: this.previousReconnectDelay,
     });
 
+    // Out of attempts, or the retry strategy gave up
+    const { maxReconnectAttempts } = this.options;
+    if (delay === null || (maxReconnectAttempts > 0 && this.reconnectAttempt >= maxReconnectAttempts)) {
+      this.logger.error(delay === null ? 'Retry strategy gave up reconnecting' : 'Max reconnect attempts reached');
+      const exhausted = ConnectionError.attemptsExhausted(this.attemptErrors);
+      this.stateMachine.transition('failed', { lastError: exhausted });
+      this.emit('error', exhausted);
+      this.rejectPendingConnect(exhausted);
+      return;
+    }
+
+    this.previousReconnectDelay = delay;
     this.logger.debug(`Scheduling reconnect in ${delay}ms (attempt ${this.reconnectAttempt + 1})`);
+    this.stateMachine.transition('reconnecting', {
+      attempt: this.reconnectAttempt + 1,
+      nextRetryAt: Date.now() + delay,
+    });
 
     this.reconnectTimeoutId = setTimeout(() => {
-      this.reconnectAttempt++;
-      this.establishConnection().catch((error) => {
-        this.logger.error('Reconnect failed:', error);
-        this.scheduleReconnect();
-      });
+      this.reconnectTimeoutId = null;
+      this.attemptReconnect();
     }, delay);
   }
 
+  private attemptReconnect(): void {
+    this.reconnectAttempt++;
+    this.establishConnection().catch((error: unknown) => {
+      this.logger.error('Reconnect failed:', error);
+      this.scheduleReconnect(error instanceof Error ? error : undefined);
+    });
+  }
+
+  private rejectPendingConnect(error: Error): void {
+    this.pendingConnect?.reject(error);
+    this.pendingConnect = null;
+  }
+
   private sendPing(): void {
     this.send({ type: WS_CLIENT_MESSAGES.PING });
   }
 
   private cleanup(): void {
+    this.closeNotice = null;
     this.clearConnectionTimeout();
+    this.clearTokenRefreshTimeout();
+    this.clearHiddenTimeout();
     this.heartbeat.stop();
 
     if (this.ws) {
@@ -417,7 +1113,7 @@ export class WebSocketManager extends TypedEventEmitter<WebSocketManagerEvents>
       this.ws.onerror = null;
       this.ws.onmessage = null;
 
-      if (this.ws.readyState === WebSocket.OPEN || this.ws.readyState === WebSocket.CONNECTING) {
+      if (this.ws.readyState === WS_READY_STATE.OPEN || this.ws.readyState === WS_READY_STATE.CONNECTING) {
         this.ws.close();
       }
 
@@ -432,6 +1128,20 @@ export class WebSocketManager extends TypedEventEmitter<WebSocketManagerEvents>
     }
   }
 
+  private clearTokenRefreshTimeout(): void {
+    if (this.tokenRefreshTimeoutId !== null) {
+      clearTimeout(this.tokenRefreshTimeoutId);
+      this.tokenRefreshTimeoutId = null;
+    }
+  }
+
+  private clearHiddenTimeout(): void {
+    if (this.hiddenTimeoutId !== null) {
+      clearTimeout(this.hiddenTimeoutId);
+      this.hiddenTimeoutId = null;
+    }
+  }
+
   private clearReconnectTimeout(): void {
     if (this.reconnectTimeoutId !== null) {
       clearTimeout(this.reconnectTimeoutId);
@@ -439,3 +1149,11 @@ export class WebSocketManager extends TypedEventEmitter<WebSocketManagerEvents>
     }
   }
 }
+
+function cancelledError(): ConnectionError {
+  return new ConnectionError(
+    'Connection attempt cancelled',
+    ERROR_CODES.CONNECTION_CLOSED,
+    { retryable: false }
+  );
+}
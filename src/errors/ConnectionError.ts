@@ -1,17 +1,31 @@
 import { PushFloError } from './PushFloError.js';
-import { ERROR_CODES } from '../utils/constants.js';
+import { ERROR_CODES, WS_CLOSE_CODES } from '../utils/constants.js';
 
 /**
  * Error thrown when connection to PushFlo fails
+ *
+ * `retryable` decides whether the client reconnects, and `retryAfter` how soon.
  */
 export class ConnectionError extends PushFloError {
+  /** WebSocket close code, if the connection was closed */
+  readonly closeCode?: number;
+
+  /** How long to wait before reconnecting, in milliseconds (0 = immediately; unset = backoff) */
+  readonly retryAfter?: number;
+
+  /** Errors of the most recent attempts, oldest first, when this error ends a series of attempts */
+  readonly errors?: Error[];
+
   constructor(
     message: string,
     code: string = ERROR_CODES.CONNECTION_FAILED,
-    options: { retryable?: boolean; cause?: Error } = {}
+    options: { retryable?: boolean; cause?: Error; closeCode?: number; retryAfter?: number; errors?: Error[] } = {}
   ) {
     super(message, code, { retryable: true, ...options });
     this.name = 'ConnectionError';
+    this.closeCode = options.closeCode;
+    this.retryAfter = options.retryAfter;
+    this.errors = options.errors;
   }
 
   /**
@@ -36,6 +50,73 @@ export class ConnectionError extends PushFloError {
     );
   }
 
+  /**
+   * Create an error from a WebSocket close code
+   * @param retryAfter - Delay the server asked for before it closed, in milliseconds
+   */
+  static fromCloseCode(closeCode: number, reason?: string, retryAfter?: number): ConnectionError {
+    const detail = reason ? `: ${reason}` : '';
+
+    switch (closeCode) {
+      case WS_CLOSE_CODES.GOING_AWAY:
+      case WS_CLOSE_CODES.SERVICE_RESTART:
+        return new ConnectionError(
+          `Server going away${detail}`,
+          ERROR_CODES.SERVER_GOING_AWAY,
+          { retryable: true, closeCode, retryAfter: retryAfter ?? 0 }
+        );
+
+      case WS_CLOSE_CODES.UNAUTHORIZED:
+        return new ConnectionError(
+          `Connection unauthorized${detail}`,
+          ERROR_CODES.UNAUTHORIZED,
+          { retryable: false, closeCode }
+        );
+
+      case WS_CLOSE_CODES.FORBIDDEN:
+        return new ConnectionError(
+          `Connection forbidden${detail}`,
+          ERROR_CODES.FORBIDDEN,
+          { retryable: false, closeCode }
+        );
+
+      case WS_CLOSE_CODES.TOKEN_EXPIRED:
+        return new ConnectionError(
+          `Token expired${detail}`,
+          ERROR_CODES.TOKEN_EXPIRED,
+          { retryable: true, closeCode, retryAfter: 0 }
+        );
+
+      case WS_CLOSE_CODES.TRY_AGAIN_LATER:
+      case WS_CLOSE_CODES.RATE_LIMITED:
+        return new ConnectionError(
+          `Connection rate limited${detail}`,
+          ERROR_CODES.RATE_LIMITED,
+          { retryable: true, closeCode, retryAfter }
+        );
+
+      default:
+        return new ConnectionError(
+          reason ? `Connection closed: ${reason}` : 'Connection closed unexpectedly',
+          ERROR_CODES.CONNECTION_CLOSED,
+          { retryable: true, closeCode, retryAfter }
+        );
+    }
+  }
+
+  /**
+   * Create an error for running out of connection attempts
+   * @param errors - Errors of the most recent failed attempts, oldest first
+   */
+  static attemptsExhausted(errors: Error[]): ConnectionError {
+    const last = errors[errors.length - 1];
+    return new ConnectionError(
+      last ? `Max reconnection attempts exceeded: ${last.message}` : 'Max reconnection attempts exceeded',
+      ERROR_CODES.MAX_RECONNECT_ATTEMPTS,
+      { retryable: false, cause: last, errors }
+    );
+  }
+
   /**
    * Create a connection failed error
    */
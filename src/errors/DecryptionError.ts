@@ -0,0 +1,54 @@
+import { PushFloError } from './PushFloError.js';
+import { ERROR_CODES } from '../utils/constants.js';
+
+/**
+ * Error reported when an encrypted message cannot be decrypted
+ */
+export class DecryptionError extends PushFloError {
+  /** ID of the message that failed to decrypt */
+  readonly messageId?: string;
+
+  /** Key ID from the message envelope */
+  readonly keyId?: string;
+
+  constructor(
+    message: string,
+    code: string = ERROR_CODES.DECRYPTION_FAILED,
+    options: { messageId?: string; keyId?: string; cause?: Error } = {}
+  ) {
+    super(message, code, { retryable: false, cause: options.cause });
+    this.name = 'DecryptionError';
+    this.messageId = options.messageId;
+    this.keyId = options.keyId;
+  }
+
+  /**
+   * Create an error for an envelope whose key ID matches none of the subscriber's keys
+   */
+  static unknownKey(keyId: string, messageId?: string): DecryptionError {
+    return new DecryptionError(
+      `No decryption key with ID '${keyId}'`,
+      ERROR_CODES.DECRYPTION_KEY_NOT_FOUND,
+      { messageId, keyId }
+    );
+  }
+
+  /**
+   * Create an error for a message without an envelope received by a subscriber expecting encryption
+   */
+  static notEncrypted(messageId?: string): DecryptionError {
+    return new DecryptionError(
+      `Message '${messageId ?? 'unknown'}' is not encrypted`,
+      ERROR_CODES.MESSAGE_NOT_ENCRYPTED,
+      { messageId }
+    );
+  }
+
+  toJSON(): Record<string, unknown> {
+    return {
+      ...super.toJSON(),
+      messageId: this.messageId,
+      keyId: this.keyId,
+    };
+  }
+}
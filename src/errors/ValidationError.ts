@@ -7,8 +7,8 @@ export class ValidationError extends PushFloError {
   /** The field that failed validation */
   readonly field?: string;
 
-  constructor(message: string, field?: string) {
-    super(message, 'VALIDATION_ERROR', { retryable: false });
+  constructor(message: string, field?: string, options: { cause?: Error } = {}) {
+    super(message, 'VALIDATION_ERROR', { retryable: false, cause: options.cause });
     this.name = 'ValidationError';
     this.field = field;
   }
@@ -30,6 +30,17 @@ export class ValidationError extends PushFloError {
     return new ValidationError(`${field} is required`, field);
   }
 
+  /**
+   * Create an error for content rejected by a channel validator
+   */
+  static invalidContent(channel: string, eventType: string, cause?: Error): ValidationError {
+    return new ValidationError(
+      `Invalid content for event '${eventType}' on channel '${channel}'${cause ? `: ${cause.message}` : ''}`,
+      'content',
+      { cause }
+    );
+  }
+
   toJSON(): Record<string, unknown> {
     return {
       ...super.toJSON(),
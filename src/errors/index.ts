@@ -3,3 +3,4 @@ export { ConnectionError } from './ConnectionError.js';
 export { AuthenticationError } from './AuthenticationError.js';
 export { NetworkError } from './NetworkError.js';
 export { ValidationError } from './ValidationError.js';
+export { DecryptionError } from './DecryptionError.js';
@@ -2,6 +2,7 @@
 
 // Main client
 export { PushFloClient } from './client/PushFloClient.js';
+export type { PresenceChannel } from './client/PresenceChannel.js';
 
 // Errors
 export { PushFloError } from './errors/PushFloError.js';
@@ -9,6 +10,20 @@ export { ConnectionError } from './errors/ConnectionError.js';
 export { AuthenticationError } from './errors/AuthenticationError.js';
 export { NetworkError } from './errors/NetworkError.js';
 export { ValidationError } from './errors/ValidationError.js';
+export { DecryptionError } from './errors/DecryptionError.js';
+
+// Wire codecs
+export { jsonCodec, msgpackCodec } from './utils/codec.js';
+
+// Retry strategies
+export {
+  exponentialBackoff,
+  decorrelatedJitter,
+  fixedDelay,
+  fibonacciBackoff,
+  type BackoffOptions,
+  type ExponentialBackoffOptions,
+} from './utils/retry.js';
 
 // Validation utilities
 export {
@@ -23,10 +38,40 @@ export {
 // Types
 export type {
   ConnectionState,
+  ConnectionDetails,
   ClientOptions,
   ConnectionInfo,
+  ClientStats,
+  ConnectionQuality,
+  LatencyStats,
+  LatencyThresholds,
+  RetryStrategy,
+  RetryContext,
+  WebSocketLike,
+  WebSocketConstructor,
+  WebSocketHandshakeOptions,
+  TransportType,
+  EventSourceLike,
+  EventSourceConstructor,
+  Codec,
+  NetworkStatusSource,
+  SharedConnectionOptions,
+  LockManagerLike,
+  BroadcastChannelLike,
+  BroadcastChannelConstructor,
 } from './types/connection.js';
 
+export type {
+  ClientToken,
+  ClientTokenOptions,
+  ChannelAuthorization,
+} from './types/auth.js';
+
+export type {
+  EncryptionKey,
+  EncryptedEnvelope,
+} from './types/encryption.js';
+
 export type {
   Channel,
   ChannelInput,
@@ -41,8 +86,28 @@ export type {
   MessageHistoryOptions,
   Subscription,
   SubscriptionOptions,
+  SubscriptionEventHandler,
+  MessageEventType,
+  MessageOfEventType,
+  AckMode,
+  SequenceGap,
 } from './types/message.js';
 
+export type {
+  ChannelMap,
+  DefaultChannelMap,
+  ChannelName,
+  ChannelEventType,
+  ChannelMessage,
+  ContentValidator,
+  ChannelValidators,
+} from './types/schema.js';
+
+export type {
+  PresenceMember,
+  PresenceAction,
+} from './types/presence.js';
+
 export type {
   Pagination,
 } from './types/api.js';
@@ -17,6 +17,7 @@ export {
   useChannel,
   type UseChannelOptions,
   type UseChannelResult,
+  type UseChannel,
 } from './react/useChannel.js';
 
 // Re-export errors for convenience (matches main entry point)
@@ -26,15 +27,27 @@ export {
   AuthenticationError,
   NetworkError,
   ValidationError,
+  DecryptionError,
 } from './errors/index.js';
 
 // Re-export common types for convenience
 export type {
   ConnectionState,
+  ConnectionDetails,
+  ConnectionQuality,
+  LatencyStats,
 } from './types/connection.js';
 
 export type {
   Message,
   Subscription,
   SubscriptionOptions,
+  AckMode,
+  SequenceGap,
 } from './types/message.js';
+
+export type {
+  ChannelMap,
+  ChannelMessage,
+  ContentValidator,
+} from './types/schema.js';
@@ -39,6 +39,8 @@ export interface PushFloProviderProps extends Omit<ClientOptions, 'autoConnect'>
 export function PushFloProvider({
   children,
   publishKey,
+  tokenProvider,
+  authorizeChannel,
   baseUrl,
   debug,
   connectionTimeout,
@@ -47,18 +49,68 @@ export function PushFloProvider({
   maxReconnectAttempts,
   reconnectDelay,
   maxReconnectDelay,
+  validators,
+  recoverMessages,
+  maxRecoveredMessages,
+  publishTimeout,
+  subscribeTimeout,
+  dedupWindowSize,
+  dedupWindowAge,
+  reorderWindow,
+  WebSocket,
+  webSocketOptions,
+  transport,
+  fallbackAfterFailures,
+  EventSource,
+  codec,
+  hiddenDisconnectDelay,
+  networkStatus,
+  shared,
+  latencyThresholds,
+  retryInitialConnect,
+  retryStrategy,
+  subscribeBatchSize,
   autoConnect = true,
 }: PushFloProviderProps) {
   const [connectionState, setConnectionState] = useState<ConnectionState>('disconnected');
   const clientRef = useRef<PushFloClient | null>(null);
   const mountedRef = useRef(true);
 
+  // Keep the latest callbacks without recreating the client when an inline function changes identity
+  const tokenProviderRef = useRef(tokenProvider);
+  tokenProviderRef.current = tokenProvider;
+  const hasTokenProvider = tokenProvider !== undefined;
+  const authorizeChannelRef = useRef(authorizeChannel);
+  authorizeChannelRef.current = authorizeChannel;
+  const hasChannelAuthorizer = authorizeChannel !== undefined;
+
+  // Object and function options are read when the client is created; inline values get a new
+  // identity every render, so they do not recreate the client
+  const objectOptions = {
+    validators,
+    WebSocket,
+    webSocketOptions,
+    EventSource,
+    codec,
+    networkStatus,
+    shared,
+    latencyThresholds,
+    retryStrategy,
+  };
+  const objectOptionsRef = useRef(objectOptions);
+  objectOptionsRef.current = objectOptions;
+
   // Initialize client
   useEffect(() => {
     mountedRef.current = true;
 
     const client = new PushFloClient({
+      ...objectOptionsRef.current,
       publishKey,
+      tokenProvider: hasTokenProvider ? () => tokenProviderRef.current!() : undefined,
+      authorizeChannel: hasChannelAuthorizer
+        ? (channel, clientId) => authorizeChannelRef.current!(channel, clientId)
+        : undefined,
       baseUrl,
       debug,
       connectionTimeout,
@@ -67,6 +119,18 @@ export function PushFloProvider({
       maxReconnectAttempts,
       reconnectDelay,
       maxReconnectDelay,
+      recoverMessages,
+      maxRecoveredMessages,
+      publishTimeout,
+      subscribeTimeout,
+      dedupWindowSize,
+      dedupWindowAge,
+      reorderWindow,
+      transport,
+      fallbackAfterFailures,
+      hiddenDisconnectDelay,
+      retryInitialConnect,
+      subscribeBatchSize,
       autoConnect: false, // We handle auto-connect ourselves
     });
 
@@ -96,6 +160,8 @@ export function PushFloProvider({
     };
   }, [
     publishKey,
+    hasTokenProvider,
+    hasChannelAuthorizer,
     baseUrl,
     debug,
     connectionTimeout,
@@ -104,6 +170,18 @@ export function PushFloProvider({
     maxReconnectAttempts,
     reconnectDelay,
     maxReconnectDelay,
+    recoverMessages,
+    maxRecoveredMessages,
+    publishTimeout,
+    subscribeTimeout,
+    dedupWindowSize,
+    dedupWindowAge,
+    reorderWindow,
+    transport,
+    fallbackAfterFailures,
+    hiddenDisconnectDelay,
+    retryInitialConnect,
+    subscribeBatchSize,
     autoConnect,
   ]);
 
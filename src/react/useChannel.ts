@@ -2,10 +2,14 @@ import { useEffect, useState, useCallback, useRef } from 'react';
 import { usePushFloContext } from './PushFloProvider.js';
 import type { ConnectionState } from '../types/connection.js';
 import type { Message } from '../types/message.js';
+import type { ChannelMap, ChannelMessage, ChannelName, DefaultChannelMap } from '../types/schema.js';
+
+export interface UseChannelOptions<TMessage = Message> {
+  /** Channel is private and must be authorized through the provider's `authorizeChannel` */
+  isPrivate?: boolean;
 
-export interface UseChannelOptions {
   /** Callback for received messages */
-  onMessage?: (message: Message) => void;
+  onMessage?: (message: TMessage) => void;
 
   /** Callback for subscription errors */
   onError?: (error: Error) => void;
@@ -14,12 +18,12 @@ export interface UseChannelOptions {
   maxMessages?: number;
 }
 
-export interface UseChannelResult {
+export interface UseChannelResult<TMessage = Message> {
   /** Array of received messages */
-  messages: Message[];
+  messages: TMessage[];
 
   /** Most recent message (or null) */
-  lastMessage: Message | null;
+  lastMessage: TMessage | null;
 
   /** Current connection state */
   connectionState: ConnectionState;
@@ -52,22 +56,33 @@ export interface UseChannelResult {
  *   );
  * }
  * ```
+ *
+ * Pass a channel map to type messages by event type:
+ * `useChannel<AppChannels, 'orders'>('orders')`, or declare
+ * `const useAppChannel: UseChannel<AppChannels> = useChannel` once.
  */
-export function useChannel(
-  channel: string,
-  options: UseChannelOptions = {}
-): UseChannelResult {
+export function useChannel<
+  TChannels extends ChannelMap = DefaultChannelMap,
+  TChannel extends ChannelName<TChannels> = ChannelName<TChannels>,
+>(
+  channel: TChannel,
+  options: UseChannelOptions<ChannelMessage<TChannels, TChannel>> = {}
+): UseChannelResult<ChannelMessage<TChannels, TChannel>> {
+  type TMessage = ChannelMessage<TChannels, TChannel>;
+
   const { connectionState, client } = usePushFloContext();
-  const [messages, setMessages] = useState<Message[]>([]);
+  const [messages, setMessages] = useState<TMessage[]>([]);
   const [isSubscribed, setIsSubscribed] = useState(false);
 
   const optionsRef = useRef(options);
   optionsRef.current = options;
 
   const maxMessages = options.maxMessages ?? 100;
+  const isPrivate = options.isPrivate ?? false;
 
   // Handle incoming messages
-  const handleMessage = useCallback((message: Message) => {
+  const handleMessage = useCallback((received: Message) => {
+    const message = received as unknown as TMessage;
     setMessages((prev) => {
       const newMessages = [...prev, message];
       // Trim to max messages
@@ -93,6 +108,7 @@ export function useChannel(
     }
 
     const subscription = client.subscribe(channel, {
+      isPrivate,
       onMessage: handleMessage,
       onError: handleError,
       onSubscribed: () => setIsSubscribed(true),
@@ -107,7 +123,7 @@ export function useChannel(
       subscription.unsubscribe();
       setIsSubscribed(false);
     };
-  }, [client, channel, handleMessage, handleError]);
+  }, [client, channel, isPrivate, handleMessage, handleError]);
 
   // Clear messages function
   const clearMessages = useCallback(() => {
@@ -122,3 +138,11 @@ export function useChannel(
     clearMessages,
   };
 }
+
+/**
+ * `useChannel` bound to a channel map, inferring the message type from the channel
+ */
+export type UseChannel<TChannels extends ChannelMap> = <TChannel extends ChannelName<TChannels>>(
+  channel: TChannel,
+  options?: UseChannelOptions<ChannelMessage<TChannels, TChannel>>
+) => UseChannelResult<ChannelMessage<TChannels, TChannel>>;
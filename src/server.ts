@@ -8,6 +8,17 @@ export { PushFloError } from './errors/PushFloError.js';
 export { AuthenticationError } from './errors/AuthenticationError.js';
 export { NetworkError } from './errors/NetworkError.js';
 export { ValidationError } from './errors/ValidationError.js';
+export { DecryptionError } from './errors/DecryptionError.js';
+
+// Retry strategies
+export {
+  exponentialBackoff,
+  decorrelatedJitter,
+  fixedDelay,
+  fibonacciBackoff,
+  type BackoffOptions,
+  type ExponentialBackoffOptions,
+} from './utils/retry.js';
 
 // Validation utilities
 export {
@@ -22,8 +33,21 @@ export {
 // Types
 export type {
   ServerOptions,
+  RetryStrategy,
+  RetryContext,
 } from './types/connection.js';
 
+export type {
+  ClientToken,
+  ClientTokenOptions,
+  ChannelAuthorization,
+} from './types/auth.js';
+
+export type {
+  EncryptionKey,
+  EncryptedEnvelope,
+} from './types/encryption.js';
+
 export type {
   Channel,
   ChannelInput,
@@ -38,6 +62,21 @@ export type {
   MessageHistoryOptions,
 } from './types/message.js';
 
+export type {
+  ChannelMap,
+  DefaultChannelMap,
+  ChannelName,
+  ChannelEventType,
+  ChannelMessage,
+  ContentValidator,
+  ChannelValidators,
+} from './types/schema.js';
+
+export type {
+  PresenceMember,
+  PresenceAction,
+} from './types/presence.js';
+
 export type {
   Pagination,
 } from './types/api.js';
@@ -3,6 +3,8 @@ import { API_PATHS, DEFAULTS } from '../utils/constants.js';
 import { AuthenticationError } from '../errors/AuthenticationError.js';
 import { ValidationError } from '../errors/ValidationError.js';
 import { validateChannelSlug } from '../utils/validation.js';
+import { encryptContent } from '../utils/encryption.js';
+import { validateContent } from '../utils/schema.js';
 import type { ServerOptions } from '../types/connection.js';
 import type {
   Channel,
@@ -16,7 +18,16 @@ import type {
   PublishResult,
   MessageHistoryOptions,
 } from '../types/message.js';
+import type {
+  ChannelEventType,
+  ChannelMap,
+  ChannelName,
+  ChannelValidators,
+  DefaultChannelMap,
+} from '../types/schema.js';
 import type { Pagination } from '../types/api.js';
+import type { ChannelAuthorization, ClientToken, ClientTokenOptions } from '../types/auth.js';
+import type { PresenceMember } from '../types/presence.js';
 
 interface ChannelsResponse {
   data: Channel[];
@@ -34,14 +45,17 @@ interface MessagesResponse {
  * Uses two different APIs:
  * - Realtime API (api.pushflo.dev): publish messages, message history
  * - Console API (console.pushflo.dev): channel CRUD operations
+ *
+ * Pass a channel map as `TChannels` to type `publish()` by channel and event type.
  */
-export class PushFloServer {
+export class PushFloServer<TChannels extends ChannelMap = DefaultChannelMap> {
   /** Client for Realtime API (publish, message history) */
   private readonly realtimeClient: RestClient;
   /** Client for Console API (channel CRUD) */
   private readonly consoleClient: RestClient;
+  private readonly validators?: ChannelValidators<ChannelMap>;
 
-  constructor(options: ServerOptions) {
+  constructor(options: ServerOptions<TChannels>) {
     if (!options.secretKey) {
       throw new AuthenticationError(
         'Secret key is required',
@@ -53,12 +67,15 @@ export class PushFloServer {
       throw AuthenticationError.invalidKey('secret');
     }
 
+    this.validators = options.validators;
+
     // Realtime API client for publish and message history
     this.realtimeClient = new RestClient({
       apiKey: options.secretKey,
       baseUrl: options.baseUrl || DEFAULTS.BASE_URL,
       timeout: options.timeout,
       retryAttempts: options.retryAttempts,
+      retryStrategy: options.retryStrategy,
       debug: options.debug,
     });
 
@@ -68,6 +85,7 @@ export class PushFloServer {
       baseUrl: options.consoleUrl || DEFAULTS.CONSOLE_URL,
       timeout: options.timeout,
       retryAttempts: options.retryAttempts,
+      retryStrategy: options.retryStrategy,
       debug: options.debug,
     });
   }
@@ -145,6 +163,66 @@ export class PushFloServer {
     }
   }
 
+  // ============================================
+  // Client Authentication (Realtime API)
+  // ============================================
+
+  /**
+   * Mint a short-lived token for a browser client
+   *
+   * Hand the token to `ClientOptions.tokenProvider` so browsers never ship a
+   * long-lived publish key.
+   * @note Uses Realtime API. Works with sec_ or mgmt_ key.
+   * @throws {ValidationError} If a channel slug or the TTL is invalid
+   */
+  async createClientToken(options: ClientTokenOptions = {}): Promise<ClientToken> {
+    options.channels?.forEach((channel) => this.validateSlug(channel));
+
+    if (options.ttl !== undefined && (!Number.isFinite(options.ttl) || options.ttl <= 0)) {
+      throw new ValidationError('ttl must be a positive number of seconds', 'ttl');
+    }
+
+    return this.realtimeClient.post<ClientToken>(API_PATHS.AUTH_TOKEN, {
+      clientId: options.clientId,
+      channels: options.channels,
+      ttl: options.ttl,
+    });
+  }
+
+  /**
+   * Sign a grant allowing a client to subscribe to a private channel
+   *
+   * Call this from the endpoint behind `ClientOptions.authorizeChannel` after
+   * checking that the user may access the channel, and return `auth` to the browser.
+   * @note Uses Realtime API. Works with sec_ or mgmt_ key.
+   * @throws {ValidationError} If the channel slug or client ID is invalid
+   */
+  async authorizeChannel(channel: string, clientId: string): Promise<ChannelAuthorization> {
+    this.validateSlug(channel);
+
+    if (!clientId) {
+      throw ValidationError.required('clientId');
+    }
+
+    return this.realtimeClient.post<ChannelAuthorization>(API_PATHS.CHANNEL_AUTH(channel), {
+      clientId,
+    });
+  }
+
+  // ============================================
+  // Presence (Realtime API)
+  // ============================================
+
+  /**
+   * Get the clients currently present on a channel
+   * @note Uses Realtime API. Works with sec_ or mgmt_ key.
+   * @throws {ValidationError} If the channel slug is invalid
+   */
+  async getPresence(channel: string): Promise<PresenceMember[]> {
+    this.validateSlug(channel);
+    return this.realtimeClient.get<PresenceMember[]>(API_PATHS.CHANNEL_PRESENCE(channel));
+  }
+
   // ============================================
   // Message Publishing (Realtime API)
   // ============================================
@@ -152,17 +230,23 @@ export class PushFloServer {
   /**
    * Publish a message to a channel
    * @note Uses Realtime API. Works with sec_ or mgmt_ key.
-   * @throws {ValidationError} If the channel slug is invalid
+   * @note With `options.encryption`, only the encrypted envelope leaves this process.
+   * @throws {ValidationError} If the channel slug is invalid or a validator rejects the content
    */
-  async publish(
-    channel: string,
-    content: Record<string, unknown>,
-    options: PublishOptions = {}
+  async publish<
+    TChannel extends ChannelName<TChannels>,
+    TEventType extends ChannelEventType<TChannels, TChannel> = Extract<'message', ChannelEventType<TChannels, TChannel>>,
+  >(
+    channel: TChannel,
+    content: TChannels[TChannel][TEventType],
+    options: PublishOptions<TEventType> = {}
   ): Promise<PublishResult> {
     this.validateSlug(channel);
+    const eventType = options.eventType ?? 'message';
+    const validated = validateContent(this.validators, channel, eventType, content);
     return this.realtimeClient.post<PublishResult>(API_PATHS.CHANNEL_MESSAGES(channel), {
-      content,
-      eventType: options.eventType ?? 'message',
+      content: options.encryption ? await encryptContent(validated, options.encryption) : validated,
+      eventType,
     });
   }
 
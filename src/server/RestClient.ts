@@ -4,10 +4,11 @@ import { createLogger, type Logger } from '../utils/logger.js';
 import { AuthenticationError } from '../errors/AuthenticationError.js';
 import { NetworkError } from '../errors/NetworkError.js';
 import type { ApiErrorResponse } from '../types/api.js';
+import type { RetryStrategy } from '../types/connection.js';
 
 export interface RestClientOptions {
-  /** API key (secret or management key) */
-  apiKey: string;
+  /** API key (secret or management key), or a function returning the current key/token */
+  apiKey: string | (() => string);
 
   /** Base URL for the API */
   baseUrl?: string;
@@ -18,6 +19,9 @@ export interface RestClientOptions {
   /** Number of retry attempts */
   retryAttempts?: number;
 
+  /** Delay between retries (default: exponential backoff) */
+  retryStrategy?: RetryStrategy;
+
   /** Enable debug logging */
   debug?: boolean;
 }
@@ -26,10 +30,11 @@ export interface RestClientOptions {
  * HTTP client for PushFlo REST API
  */
 export class RestClient {
-  private readonly apiKey: string;
+  private readonly apiKey: string | (() => string);
   private readonly baseUrl: string;
   private readonly timeout: number;
   private readonly retryAttempts: number;
+  private readonly retryStrategy?: RetryStrategy;
   private readonly logger: Logger;
 
   constructor(options: RestClientOptions) {
@@ -37,6 +42,7 @@ export class RestClient {
     this.baseUrl = (options.baseUrl ?? DEFAULTS.BASE_URL).replace(/\/$/, '');
     this.timeout = options.timeout ?? DEFAULTS.CONNECTION_TIMEOUT;
     this.retryAttempts = options.retryAttempts ?? 3;
+    this.retryStrategy = options.retryStrategy;
     this.logger = createLogger({ debug: options.debug, prefix: '[PushFlo REST]' });
   }
 
@@ -58,6 +64,7 @@ export class RestClient {
 
     const retryOpts: RetryOptions = {
       maxAttempts: this.retryAttempts,
+      strategy: this.retryStrategy,
       isRetryable: (error) => {
         if (error instanceof NetworkError) {
           return error.retryable;
@@ -149,7 +156,7 @@ export class RestClient {
   private getHeaders(): Record<string, string> {
     return {
       'Content-Type': 'application/json',
-      Authorization: `Bearer ${this.apiKey}`,
+      Authorization: `Bearer ${typeof this.apiKey === 'function' ? this.apiKey() : this.apiKey}`,
     };
   }
 
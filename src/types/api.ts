@@ -1,3 +1,5 @@
+import type { PresenceMember } from './presence.js';
+
 /**
  * Pagination metadata for list responses
  */
@@ -56,13 +58,54 @@ export interface ApiErrorResponse {
  */
 export interface WsClientMessage {
   /** Message type */
-  type: 'subscribe' | 'unsubscribe' | 'ping' | 'ack';
+  type: 'subscribe' | 'unsubscribe' | 'ping' | 'ack' | 'auth' | 'publish' | 'presence';
 
-  /** Channel slug (for subscribe/unsubscribe) */
+  /** Channel slug (for subscribe/unsubscribe/ack/publish) */
   channel?: string;
 
+  /** Channel slugs, instead of `channel` (for batched subscribe/unsubscribe) */
+  channels?: string[];
+
+  /** Correlates the server's reply with this request (for publish) */
+  requestId?: string;
+
+  /** Event type (for publish) */
+  eventType?: string;
+
+  /** Message payload (for publish), or member data (for presence) */
+  data?: Record<string, unknown>;
+
+  /** Presence action (for presence) */
+  action?: 'enter' | 'leave' | 'update';
+
   /** Message ID (for ack) */
   messageId?: string;
+
+  /** Refreshed client token (for auth) */
+  token?: string;
+
+  /** Signed channel grant (for subscribe to a private channel) */
+  auth?: string;
+
+  /** Hold messages until acknowledged and redeliver unacknowledged ones (for subscribe) */
+  ack?: boolean;
+
+  /** Only send messages with these event types (for subscribe) */
+  eventTypes?: string[];
+}
+
+/**
+ * A channel the server refused in a batched subscribe
+ */
+export interface WsChannelFailure {
+  /** Channel slug */
+  channel: string;
+
+  /** Error code */
+  code?: string;
+
+  /** Error message */
+  error?: string;
 }
 
 /**
@@ -70,7 +113,16 @@ export interface WsClientMessage {
  */
 export interface WsServerMessage {
   /** Message type */
-  type: 'connected' | 'subscribed' | 'unsubscribed' | 'message' | 'error' | 'pong';
+  type:
+    | 'connected'
+    | 'authenticated'
+    | 'subscribed'
+    | 'unsubscribed'
+    | 'message'
+    | 'published'
+    | 'presence'
+    | 'error'
+    | 'pong';
 
   /** Client ID (for connected, or sender for message) */
   clientId?: string;
@@ -78,21 +130,54 @@ export interface WsServerMessage {
   /** Channel slug (for subscribed/unsubscribed/message) */
   channel?: string;
 
-  /** Message ID (for message) */
+  /** Channels confirmed by a batched request, instead of `channel` (for subscribed/unsubscribed) */
+  channels?: string[];
+
+  /** Channels a batched subscribe was refused for (for subscribed) */
+  failed?: WsChannelFailure[];
+
+  /** Message ID (for message/published) */
   messageId?: string;
 
+  /** ID of the client request this replies to (for published/error) */
+  requestId?: string;
+
+  /** Number of subscribers the message was delivered to (for published) */
+  delivered?: number;
+
+  /** ISO 8601 timestamp of when the message was published (for published) */
+  createdAt?: string;
+
   /** Event type (for message) */
   eventType?: string;
 
-  /** Message payload (for message) */
+  /** Wire codec the server accepted (for connected) */
+  codec?: string;
+
+  /** Per-channel sequence number (for message on ordered channels) */
+  sequence?: number;
+
+  /** Message payload (for message), or member data (for presence) */
   data?: Record<string, unknown>;
 
+  /** Presence action (for presence) */
+  action?: 'enter' | 'leave' | 'update' | 'sync';
+
+  /** Full member list (for presence sync) */
+  members?: PresenceMember[];
+
   /** Error message (for error) */
   error?: string;
 
   /** Error code (for error) */
   code?: string;
 
+  /** Seconds to wait before reconnecting (for error) */
+  retryAfter?: number;
+
   /** Timestamp */
   timestamp?: number;
+
+  /** Token expiry as a Unix timestamp in milliseconds (for connected/authenticated) */
+  expiresAt?: number;
 }
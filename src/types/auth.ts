@@ -0,0 +1,44 @@
+/**
+ * Options for minting a short-lived client token
+ */
+export interface ClientTokenOptions {
+  /** Client ID to bind the token to (server-assigned if omitted) */
+  clientId?: string;
+
+  /** Channel slugs the token is allowed to subscribe to (all channels if omitted) */
+  channels?: string[];
+
+  /** Token lifetime in seconds */
+  ttl?: number;
+}
+
+/**
+ * A short-lived client token minted by the server
+ */
+export interface ClientToken {
+  /** Opaque token to pass to the browser client */
+  token: string;
+
+  /** Client ID the token is bound to */
+  clientId: string;
+
+  /** Channel slugs the token grants access to (null = all channels) */
+  channels: string[] | null;
+
+  /** Unix timestamp (milliseconds) when the token expires */
+  expiresAt: number;
+}
+
+/**
+ * A signed grant allowing a client to subscribe to a private channel
+ */
+export interface ChannelAuthorization {
+  /** Channel slug the grant is for */
+  channel: string;
+
+  /** Client ID the grant is bound to */
+  clientId: string;
+
+  /** Signature to send with the subscribe request */
+  auth: string;
+}
@@ -1,18 +1,91 @@
+import type { ChannelMap, ChannelValidators, DefaultChannelMap } from './schema.js';
+
 /**
  * Connection state of the PushFlo client
+ * - `'reconnecting'`: the connection dropped and a reconnect is scheduled or waiting for the network
+ * - `'failed'`: reconnecting gave up after `maxReconnectAttempts`; call `connect()` to start over
+ */
+export type ConnectionState =
+  | 'disconnected'
+  | 'connecting'
+  | 'connected'
+  | 'reconnecting'
+  | 'error'
+  | 'failed';
+
+/**
+ * Details of the connection state, passed to `onConnectionChange` listeners
+ */
+export interface ConnectionDetails {
+  /** Reconnect attempt: 0 for the first connect; while reconnecting, the attempt that runs next */
+  attempt: number;
+
+  /** When the next reconnect attempt runs, as a Unix timestamp in milliseconds (null if none is scheduled) */
+  nextRetryAt: number | null;
+
+  /** Most recent connection error */
+  lastError: Error | null;
+
+  /** Close code of the most recently closed connection */
+  lastCloseCode: number | null;
+}
+
+/**
+ * Transport carrying the real-time connection
+ * - `'websocket'`: a WebSocket connection
+ * - `'sse'`: Server-Sent Events for receiving, HTTP requests for sending
  */
-export type ConnectionState = 'disconnected' | 'connecting' | 'connected' | 'error';
+export type TransportType = 'websocket' | 'sse';
 
 /**
  * Options for creating a PushFlo browser client
  */
-export interface ClientOptions {
-  /** Publish key for read/subscribe access (pub_xxx) */
-  publishKey: string;
+export interface ClientOptions<TChannels extends ChannelMap = DefaultChannelMap> {
+  /** Publish key for read/subscribe access (pub_xxx). Optional when `tokenProvider` is set */
+  publishKey?: string;
+
+  /**
+   * Fetch a short-lived client token (see `PushFloServer.createClientToken`).
+   * Called on every connect and reconnect, and before the current token expires.
+   */
+  tokenProvider?: () => Promise<string>;
+
+  /**
+   * Authorize a subscription to a private channel (see `PushFloServer.authorizeChannel`).
+   * Resolves with the signed grant; reject to deny the subscription.
+   */
+  authorizeChannel?: (channel: string, clientId: string) => Promise<string>;
 
   /** Base URL for the PushFlo API */
   baseUrl?: string;
 
+  /**
+   * WebSocket implementation to connect with (default: the global `WebSocket`).
+   * Pass e.g. the `ws` package on Node.js versions without a global WebSocket.
+   */
+  WebSocket?: WebSocketConstructor;
+
+  /** Handshake options passed to the WebSocket implementation (ignored by browsers) */
+  webSocketOptions?: WebSocketHandshakeOptions;
+
+  /**
+   * Transport to connect with (default: `'auto'`).
+   * `'auto'` uses WebSocket and switches to the SSE fallback after repeated upgrade failures.
+   */
+  transport?: TransportType | 'auto';
+
+  /** Failed WebSocket upgrades before `'auto'` switches to the SSE fallback (default: 2) */
+  fallbackAfterFailures?: number;
+
+  /** EventSource implementation for the SSE fallback (default: the global `EventSource`) */
+  EventSource?: EventSourceConstructor;
+
+  /**
+   * Wire codec to offer the server (default: `'json'`). `'msgpack'` sends binary frames;
+   * the client falls back to JSON if the server does not accept the codec.
+   */
+  codec?: Codec | 'json' | 'msgpack';
+
   /** Automatically connect on client creation */
   autoConnect?: boolean;
 
@@ -28,6 +101,14 @@ export interface ClientOptions {
   /** Enable automatic reconnection */
   autoReconnect?: boolean;
 
+  /**
+   * Retry a failed first connect with the same backoff as reconnects (default: false)
+   *
+   * `connect()` then resolves once a connection succeeds, and rejects only when the server
+   * refuses the connection or `maxReconnectAttempts` run out.
+   */
+  retryInitialConnect?: boolean;
+
   /** Maximum reconnection attempts (0 = infinite) */
   maxReconnectAttempts?: number;
 
@@ -36,12 +117,236 @@ export interface ClientOptions {
 
   /** Maximum reconnection delay in milliseconds */
   maxReconnectDelay?: number;
+
+  /**
+   * Delay between reconnect attempts (default: `exponentialBackoff` from `reconnectDelay` to
+   * `maxReconnectDelay`)
+   *
+   * A strategy that returns null gives up and moves the connection to `'failed'`.
+   * `maxReconnectAttempts` still applies.
+   */
+  retryStrategy?: RetryStrategy;
+
+  /** Backfill messages published while disconnected from message history after reconnecting */
+  recoverMessages?: boolean;
+
+  /** Maximum number of missed messages to backfill per channel (default: 1000) */
+  maxRecoveredMessages?: number;
+
+  /** Time to wait for the server to confirm a `publish()`, in milliseconds */
+  publishTimeout?: number;
+
+  /**
+   * Time from `subscribe()` until `subscription.ready` rejects if the server has not confirmed, in
+   * milliseconds; counts while disconnected too
+   */
+  subscribeTimeout?: number;
+
+  /**
+   * Maximum channels per batched subscribe or unsubscribe frame, used by `subscribeMany`,
+   * `unsubscribeMany` and re-subscribing after a reconnect (default: 100)
+   */
+  subscribeBatchSize?: number;
+
+  /** Number of recent message IDs remembered per channel to drop duplicates (default: 1000, 0 disables) */
+  dedupWindowSize?: number;
+
+  /** How long message IDs are remembered to drop duplicates, in milliseconds (default: 5 minutes) */
+  dedupWindowAge?: number;
+
+  /**
+   * How long to hold out-of-order messages on sequenced channels while waiting for the
+   * missing ones, in milliseconds (default: 0, deliver immediately and report the gap)
+   */
+  reorderWindow?: number;
+
+  /**
+   * Content validators by channel and event type. Published content is checked before it is
+   * sent; received content is checked before `onMessage`, and failures reach `onError`.
+   */
+  validators?: ChannelValidators<TChannels>;
+
+  /**
+   * Source of network and page-visibility changes (default: `online`/`offline` and
+   * `visibilitychange` events in browsers). Pass `false` to ignore them.
+   */
+  networkStatus?: NetworkStatusSource | false;
+
+  /** Disconnect once the page has been hidden this long, in milliseconds (default: 0, stay connected) */
+  hiddenDisconnectDelay?: number;
+
+  /**
+   * Share one connection between browser tabs: a leader tab owns the connection and the other
+   * tabs go through it. Falls back to a connection per tab where BroadcastChannel or Web Locks
+   * are unavailable.
+   */
+  shared?: boolean | SharedConnectionOptions;
+
+  /**
+   * Round-trip times (95th percentile, in milliseconds) at which `connectionQuality` becomes
+   * `'degraded'` or `'poor'` (default: 300 and 1000). A pong overdue by `poor` also counts as poor.
+   */
+  latencyThresholds?: Partial<LatencyThresholds>;
+}
+
+/**
+ * Event handler property, checked bivariantly so implementations with richer event types fit
+ */
+type WebSocketHandler<E> = { bivarianceHack(event: E): void }['bivarianceHack'] | null;
+
+/**
+ * The subset of the WebSocket API the client relies on
+ *
+ * Satisfied by the browser `WebSocket`, Node.js/Deno globals and the `ws` package.
+ */
+export interface WebSocketLike {
+  readonly readyState: number;
+  binaryType?: string;
+  onopen: WebSocketHandler<unknown>;
+  onclose: WebSocketHandler<{ code: number; reason: string }>;
+  onerror: WebSocketHandler<unknown>;
+  onmessage: WebSocketHandler<{ data: unknown }>;
+  send(data: string | Uint8Array): void;
+  close(code?: number, reason?: string): void;
+}
+
+/**
+ * Constructor of a WebSocket implementation
+ */
+export type WebSocketConstructor = new (
+  url: string,
+  protocols?: string | string[],
+  options?: Record<string, unknown>
+) => WebSocketLike;
+
+/**
+ * The subset of the EventSource API the SSE fallback relies on
+ */
+export interface EventSourceLike {
+  onopen: WebSocketHandler<unknown>;
+  onerror: WebSocketHandler<unknown>;
+  onmessage: WebSocketHandler<{ data: unknown }>;
+  close(): void;
 }
 
+/**
+ * Constructor of an EventSource implementation
+ */
+export type EventSourceConstructor = new (url: string) => EventSourceLike;
+
+/**
+ * Options for the WebSocket handshake
+ */
+export interface WebSocketHandshakeOptions {
+  /** Subprotocols to request */
+  protocols?: string | string[];
+
+  /** Extra HTTP headers for the upgrade request */
+  headers?: Record<string, string>;
+
+  /** HTTP agent, e.g. for proxies */
+  agent?: unknown;
+
+  /** Any other implementation-specific options, such as TLS settings (`ca`, `rejectUnauthorized`) */
+  [key: string]: unknown;
+}
+
+/**
+ * Encodes and decodes frames on the wire
+ */
+export interface Codec {
+  /** Name offered to the server when connecting */
+  readonly name: string;
+
+  /** Encode an outgoing frame */
+  encode(frame: unknown): string | Uint8Array;
+
+  /** Decode an incoming frame (text frames arrive as strings, binary frames as bytes) */
+  decode(data: string | Uint8Array): unknown;
+}
+
+/**
+ * What a retry strategy knows about the failed attempt
+ */
+export interface RetryContext {
+  /** Number of retries already made (0 when deciding the first retry) */
+  attempt: number;
+
+  /** Error of the attempt that failed, if known */
+  error?: unknown;
+
+  /** Delay before the previous retry in milliseconds (null when deciding the first retry) */
+  previousDelay: number | null;
+}
+
+/**
+ * Decides how long to wait before each retry
+ *
+ * Strategies are stateless: everything they need arrives in the context, so one strategy can
+ * serve several clients. See `exponentialBackoff`, `decorrelatedJitter`, `fixedDelay` and
+ * `fibonacciBackoff` for the built-in strategies.
+ */
+export interface RetryStrategy {
+  /** Delay before the next attempt in milliseconds, or null to give up */
+  nextDelay(context: RetryContext): number | null;
+}
+
+/**
+ * Reports whether the network is reachable and the page is visible
+ *
+ * The browser implementation reads `navigator.onLine` and `document.visibilityState`;
+ * pass your own for other runtimes (e.g. React Native's NetInfo and AppState).
+ */
+export interface NetworkStatusSource {
+  /** Whether the network is currently reachable */
+  isOnline(): boolean;
+
+  /** Whether the page or app is currently visible */
+  isVisible(): boolean;
+
+  /** Call `listener` whenever either status may have changed; returns a function that stops listening */
+  subscribe(listener: () => void): () => void;
+}
+
+/**
+ * Options for sharing one connection between browser tabs
+ */
+export interface SharedConnectionOptions {
+  /** Tabs using the same name share a connection (default: derived from the base URL and publish key) */
+  name?: string;
+
+  /** Web Locks implementation used to elect the leader tab (default: `navigator.locks`) */
+  locks?: LockManagerLike;
+
+  /** BroadcastChannel implementation used to talk between tabs (default: the global `BroadcastChannel`) */
+  BroadcastChannel?: BroadcastChannelConstructor;
+}
+
+/**
+ * The subset of the Web Locks API used for leader election
+ */
+export interface LockManagerLike {
+  request(name: string, options: { signal?: AbortSignal }, callback: () => Promise<void>): Promise<unknown>;
+}
+
+/**
+ * The subset of the BroadcastChannel API used to talk between tabs
+ */
+export interface BroadcastChannelLike {
+  onmessage: WebSocketHandler<{ data: unknown }>;
+  postMessage(message: unknown): void;
+  close(): void;
+}
+
+/**
+ * Constructor of a BroadcastChannel implementation
+ */
+export type BroadcastChannelConstructor = new (name: string) => BroadcastChannelLike;
+
 /**
  * Options for creating a PushFlo server client
  */
-export interface ServerOptions {
+export interface ServerOptions<TChannels extends ChannelMap = DefaultChannelMap> {
   /** Secret key for read/write access (sec_xxx or mgmt_xxx) */
   secretKey: string;
 
@@ -59,6 +364,17 @@ export interface ServerOptions {
 
   /** Number of retry attempts for failed requests */
   retryAttempts?: number;
+
+  /**
+   * Delay between retries of failed requests (default: `exponentialBackoff`)
+   *
+   * A strategy that returns null gives up and the request fails with the last error.
+   * `retryAttempts` still applies.
+   */
+  retryStrategy?: RetryStrategy;
+
+  /** Content validators by channel and event type, checked before publishing */
+  validators?: ChannelValidators<TChannels>;
 }
 
 /**
@@ -70,4 +386,54 @@ export interface ConnectionInfo {
 
   /** Server timestamp */
   timestamp: number;
+
+  /** Unix timestamp (milliseconds) when the connection token expires, if token-authenticated */
+  expiresAt?: number;
+
+  /** Transport carrying the connection */
+  transport: TransportType;
+}
+
+/**
+ * Connection quality derived from heartbeat round-trip times
+ */
+export type ConnectionQuality = 'good' | 'degraded' | 'poor';
+
+/**
+ * Round-trip time thresholds for connection quality, in milliseconds
+ */
+export interface LatencyThresholds {
+  degraded: number;
+  poor: number;
+}
+
+/**
+ * Heartbeat round-trip times, in milliseconds (null before the first pong)
+ */
+export interface LatencyStats {
+  /** Most recent round-trip time */
+  last: number | null;
+
+  /** Average over recent pings */
+  average: number | null;
+
+  /** 95th percentile over recent pings */
+  p95: number | null;
+
+  /** Number of recent pings the statistics are based on */
+  samples: number;
+
+  /** Estimated server clock minus local clock; add it to `Date.now()` to get server time */
+  clockOffset: number | null;
+}
+
+/**
+ * Message delivery counters for a client
+ */
+export interface ClientStats {
+  /** Messages delivered to subscribers */
+  messagesReceived: number;
+
+  /** Messages dropped because they were already delivered */
+  duplicatesDropped: number;
 }
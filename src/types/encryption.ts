@@ -0,0 +1,27 @@
+/**
+ * A symmetric key for end-to-end encrypted channel payloads
+ */
+export interface EncryptionKey {
+  /** Key ID stored in the envelope, so subscribers can pick the right key during rotation */
+  id: string;
+
+  /** AES-GCM key: a `CryptoKey`, or the raw 128/192/256-bit key encoded as base64 */
+  key: CryptoKey | string;
+}
+
+/**
+ * Envelope that replaces the content of an encrypted message
+ */
+export interface EncryptedEnvelope {
+  /** Encryption algorithm */
+  alg: 'AES-GCM';
+
+  /** ID of the key the content was encrypted with */
+  keyId: string;
+
+  /** Base64 initialization vector */
+  iv: string;
+
+  /** Base64 ciphertext of the JSON-encoded content */
+  ciphertext: string;
+}
@@ -1,10 +1,40 @@
 export type {
   ConnectionState,
+  ConnectionDetails,
   ClientOptions,
   ServerOptions,
   ConnectionInfo,
+  ClientStats,
+  ConnectionQuality,
+  LatencyStats,
+  LatencyThresholds,
+  RetryStrategy,
+  RetryContext,
+  WebSocketLike,
+  WebSocketConstructor,
+  WebSocketHandshakeOptions,
+  TransportType,
+  EventSourceLike,
+  EventSourceConstructor,
+  Codec,
+  NetworkStatusSource,
+  SharedConnectionOptions,
+  LockManagerLike,
+  BroadcastChannelLike,
+  BroadcastChannelConstructor,
 } from './connection.js';
 
+export type {
+  ClientToken,
+  ClientTokenOptions,
+  ChannelAuthorization,
+} from './auth.js';
+
+export type {
+  EncryptionKey,
+  EncryptedEnvelope,
+} from './encryption.js';
+
 export type {
   Channel,
   ChannelInput,
@@ -19,8 +49,28 @@ export type {
   MessageHistoryOptions,
   Subscription,
   SubscriptionOptions,
+  SubscriptionEventHandler,
+  MessageEventType,
+  MessageOfEventType,
+  AckMode,
+  SequenceGap,
 } from './message.js';
 
+export type {
+  ChannelMap,
+  DefaultChannelMap,
+  ChannelName,
+  ChannelEventType,
+  ChannelMessage,
+  ContentValidator,
+  ChannelValidators,
+} from './schema.js';
+
+export type {
+  PresenceMember,
+  PresenceAction,
+} from './presence.js';
+
 export type {
   Pagination,
   ApiResponse,
@@ -28,4 +78,5 @@ export type {
   ApiErrorResponse,
   WsClientMessage,
   WsServerMessage,
+  WsChannelFailure,
 } from './api.js';
@@ -1,7 +1,9 @@
+import type { EncryptionKey } from './encryption.js';
+
 /**
  * A message received from a PushFlo channel
  */
-export interface Message {
+export interface Message<TContent = Record<string, unknown>, TEventType extends string = string> {
   /** Unique message ID */
   id: string;
 
@@ -9,24 +11,47 @@ export interface Message {
   channel: string;
 
   /** Event type for filtering/routing */
-  eventType: string;
+  eventType: TEventType;
 
   /** ID of the client that published the message */
   clientId: string;
 
   /** Message payload */
-  content: Record<string, unknown>;
+  content: TContent;
 
   /** Unix timestamp (milliseconds) of when the message was published */
   timestamp: number;
+
+  /** Per-channel sequence number (present on ordered channels) */
+  sequence?: number;
+
+  /** Acknowledge the message (present when subscribed with `ack: 'manual'`) */
+  ack?: () => void;
+}
+
+/**
+ * A range of sequence numbers that were not received on a channel
+ */
+export interface SequenceGap {
+  /** Channel slug */
+  channel: string;
+
+  /** First missing sequence number */
+  from: number;
+
+  /** Last missing sequence number (inclusive) */
+  to: number;
 }
 
 /**
  * Options for publishing a message
  */
-export interface PublishOptions {
+export interface PublishOptions<TEventType extends string = string> {
   /** Event type for filtering/routing (default: 'message') */
-  eventType?: string;
+  eventType?: TEventType;
+
+  /** Encrypt `content` end-to-end with AES-GCM before it leaves this process */
+  encryption?: EncryptionKey;
 }
 
 /**
@@ -72,30 +97,124 @@ export interface MessageHistoryOptions {
   before?: number;
 }
 
+/**
+ * Event types a message type can carry
+ */
+export type MessageEventType<TMessage> = TMessage extends { eventType: infer TEventType } ? TEventType : string;
+
+/**
+ * The message a handler for an event type receives (`'*'` receives every message)
+ */
+export type MessageOfEventType<TMessage, TEventType> = TEventType extends '*'
+  ? TMessage
+  : [Extract<TMessage, { eventType: TEventType }>] extends [never]
+    ? TMessage
+    : Extract<TMessage, { eventType: TEventType }>;
+
+/**
+ * Handler registered with `subscription.on()`
+ */
+export type SubscriptionEventHandler<TMessage, TEventType> = (
+  message: MessageOfEventType<TMessage, TEventType>
+) => void;
+
 /**
  * A subscription to a channel
  */
-export interface Subscription {
+export interface Subscription<TMessage = Message> {
   /** Channel slug */
   channel: string;
 
   /** Unsubscribe from the channel */
   unsubscribe: () => void;
+
+  /**
+   * Resolves once the server confirms the subscription. Rejects on a subscription
+   * error, when the server does not confirm within `subscribeTimeout`, or when
+   * unsubscribed before confirmation.
+   */
+  ready: Promise<void>;
+
+  /**
+   * Handle messages of one event type, or every message with `'*'`
+   * @returns Function that removes the handler
+   */
+  on<TEventType extends MessageEventType<TMessage> | '*'>(
+    eventType: TEventType,
+    handler: SubscriptionEventHandler<TMessage, TEventType>
+  ): () => void;
+
+  /**
+   * Handle the next message of one event type, or the next message with `'*'`
+   * @returns Function that removes the handler before it runs
+   */
+  once<TEventType extends MessageEventType<TMessage> | '*'>(
+    eventType: TEventType,
+    handler: SubscriptionEventHandler<TMessage, TEventType>
+  ): () => void;
+
+  /**
+   * Remove a handler registered with `on()`
+   */
+  off<TEventType extends MessageEventType<TMessage> | '*'>(
+    eventType: TEventType,
+    handler: SubscriptionEventHandler<TMessage, TEventType>
+  ): void;
 }
 
+/**
+ * Message acknowledgement mode
+ */
+export type AckMode = 'auto' | 'manual';
+
 /**
  * Options for subscribing to a channel
  */
-export interface SubscriptionOptions {
+export interface SubscriptionOptions<TMessage = Message> {
+  /** Channel is private and must be authorized through `ClientOptions.authorizeChannel` */
+  isPrivate?: boolean;
+
   /** Callback for received messages */
-  onMessage?: (message: Message) => void;
+  onMessage?: (message: TMessage) => void | Promise<void>;
 
   /** Callback for subscription errors */
   onError?: (error: Error) => void;
 
+  /**
+   * Acknowledgement mode for at-least-once delivery. Unacknowledged messages are redelivered.
+   * - `'auto'`: ack once `onMessage` returns (or its promise resolves)
+   * - `'manual'`: call `message.ack()` when done
+   */
+  ack?: AckMode;
+
   /** Callback when subscription is confirmed */
   onSubscribed?: () => void;
 
   /** Callback when unsubscribed */
   onUnsubscribed?: () => void;
+
+  /** Callback when missed messages have been replayed after a reconnect */
+  onRecovered?: (count: number) => void;
+
+  /**
+   * Keys for decrypting encrypted messages before `onMessage` runs; pass several during
+   * key rotation and the one matching the envelope's key ID is used. Failures reach `onError`
+   * as a `DecryptionError`.
+   */
+  decryptionKey?: EncryptionKey | EncryptionKey[];
+
+  /**
+   * Deliver messages without an envelope as they are when `decryptionKey` is set, e.g. while
+   * publishers migrate to encryption (default: false, they reach `onError` as a `DecryptionError`)
+   */
+  allowUnencrypted?: boolean;
+
+  /** Callback when sequence numbers were skipped on the channel */
+  onGap?: (gap: SequenceGap) => void;
+
+  /**
+   * Only receive messages with these event types. The server filters before sending; the client
+   * drops any other event types a server without filtering support still sends.
+   */
+  eventTypes?: Array<MessageEventType<TMessage>>;
 }
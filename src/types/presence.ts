@@ -0,0 +1,18 @@
+/**
+ * A client present on a channel
+ */
+export interface PresenceMember {
+  /** Client ID of the member (see `ConnectionInfo.clientId`) */
+  clientId: string;
+
+  /** Custom data the member entered or last updated with */
+  data: Record<string, unknown>;
+
+  /** Unix timestamp (milliseconds) of the member's last presence change */
+  timestamp: number;
+}
+
+/**
+ * Presence change actions
+ */
+export type PresenceAction = 'enter' | 'leave' | 'update';
@@ -0,0 +1,60 @@
+import type { Message } from './message.js';
+
+/**
+ * Declares the event types of each channel and the content each event carries
+ *
+ * @example
+ * ```typescript
+ * type AppChannels = {
+ *   orders: { created: Order; cancelled: { id: string } };
+ *   chat: { message: { text: string } };
+ * };
+ * ```
+ */
+export type ChannelMap = Record<string, Record<string, object>>;
+
+/**
+ * Channel map used when none is declared: any channel, event type and content
+ */
+export type DefaultChannelMap = Record<string, Record<string, Record<string, unknown>>>;
+
+/**
+ * Channel slugs declared in a channel map
+ */
+export type ChannelName<TChannels extends ChannelMap> = Extract<keyof TChannels, string>;
+
+/**
+ * Event types declared for a channel
+ */
+export type ChannelEventType<
+  TChannels extends ChannelMap,
+  TChannel extends ChannelName<TChannels>,
+> = Extract<keyof TChannels[TChannel], string>;
+
+/**
+ * Message received on a channel, discriminated by `eventType`
+ */
+export type ChannelMessage<
+  TChannels extends ChannelMap,
+  TChannel extends ChannelName<TChannels>,
+> = {
+  [TEventType in ChannelEventType<TChannels, TChannel>]: Message<TChannels[TChannel][TEventType], TEventType>;
+}[ChannelEventType<TChannels, TChannel>];
+
+/**
+ * Runtime validator for message content, e.g. a zod schema
+ *
+ * `parse` returns the (possibly transformed) content or throws if the input is malformed.
+ */
+export interface ContentValidator<T = unknown> {
+  parse(input: unknown): T;
+}
+
+/**
+ * Content validators by channel and event type
+ */
+export type ChannelValidators<TChannels extends ChannelMap = DefaultChannelMap> = {
+  [TChannel in ChannelName<TChannels>]?: {
+    [TEventType in ChannelEventType<TChannels, TChannel>]?: ContentValidator<TChannels[TChannel][TEventType]>;
+  };
+};
@@ -0,0 +1,37 @@
+import { encodeMsgPack, decodeMsgPack } from './msgpack.js';
+import type { Codec } from '../types/connection.js';
+
+const textDecoder = new TextDecoder();
+
+/**
+ * JSON text frames (the default)
+ */
+export const jsonCodec: Codec = {
+  name: 'json',
+  encode: (frame) => JSON.stringify(frame),
+  decode: (data) => JSON.parse(typeof data === 'string' ? data : textDecoder.decode(data)),
+};
+
+/**
+ * MessagePack binary frames
+ *
+ * Text frames (e.g. from servers without MessagePack support) are still read as JSON.
+ */
+export const msgpackCodec: Codec = {
+  name: 'msgpack',
+  encode: (frame) => encodeMsgPack(frame),
+  decode: (data) => (typeof data === 'string' ? JSON.parse(data) : decodeMsgPack(data)),
+};
+
+/**
+ * Resolve a codec option to a codec
+ */
+export function resolveCodec(codec: Codec | 'json' | 'msgpack' | undefined): Codec {
+  if (codec === undefined || codec === 'json') {
+    return jsonCodec;
+  }
+  if (codec === 'msgpack') {
+    return msgpackCodec;
+  }
+  return codec;
+}
@@ -11,6 +11,12 @@ export const DEFAULTS = {
   /** WebSocket endpoint path */
   WS_PATH: '/ws',
 
+  /** Server-Sent Events fallback endpoint path */
+  SSE_PATH: '/sse',
+
+  /** Failed WebSocket upgrades before switching to the SSE fallback */
+  FALLBACK_AFTER_FAILURES: 2,
+
   /** API version prefix */
   API_VERSION: '/api/v1',
 
@@ -32,8 +38,50 @@ export const DEFAULTS = {
   /** Maximum number of reconnection attempts (0 = infinite) */
   MAX_RECONNECT_ATTEMPTS: 0,
 
+  /** Number of most recent attempt errors kept for the error that ends a series of attempts */
+  MAX_ATTEMPT_ERRORS: 10,
+
+  /** How long before token expiry to fetch a fresh token, in milliseconds */
+  TOKEN_REFRESH_MARGIN: 30000,
+
+  /** Time to wait for the server to confirm a client publish, in milliseconds */
+  PUBLISH_TIMEOUT: 10000,
+
+  /** Time to wait for the server to confirm a subscribe, in milliseconds */
+  SUBSCRIBE_TIMEOUT: 10000,
+
+  /** Maximum number of channels per batched subscribe or unsubscribe frame */
+  SUBSCRIBE_BATCH_SIZE: 100,
+
+  /** Number of recent message IDs remembered per channel for deduplication */
+  DEDUP_WINDOW_SIZE: 1000,
+
+  /** How long message IDs are remembered for deduplication, in milliseconds */
+  DEDUP_WINDOW_AGE: 300000,
+
+  /** How long out-of-order messages are held for reordering, in milliseconds (0 = no reordering) */
+  REORDER_WINDOW: 0,
+
+  /** Number of recent round-trip times kept for latency statistics */
+  LATENCY_WINDOW_SIZE: 20,
+
+  /** 95th percentile round-trip time at which the connection counts as degraded, in milliseconds */
+  LATENCY_DEGRADED_THRESHOLD: 300,
+
+  /** 95th percentile round-trip time (or overdue pong) at which the connection counts as poor, in milliseconds */
+  LATENCY_POOR_THRESHOLD: 1000,
+
+  /** How long a hidden page stays connected, in milliseconds (0 = never disconnect) */
+  HIDDEN_DISCONNECT_DELAY: 0,
+
   /** Default page size for list operations */
   PAGE_SIZE: 25,
+
+  /** Page size used when backfilling missed messages after a reconnect */
+  RECOVERY_PAGE_SIZE: 100,
+
+  /** Maximum number of missed messages to backfill per channel after a reconnect */
+  MAX_RECOVERED_MESSAGES: 1000,
 } as const;
 
 /**
@@ -44,6 +92,38 @@ export const API_PATHS = {
   CHANNELS: '/channels',
   CHANNEL: (slug: string) => `/channels/${encodeURIComponent(slug)}`,
   CHANNEL_MESSAGES: (slug: string) => `/channels/${encodeURIComponent(slug)}/messages`,
+  CHANNEL_AUTH: (slug: string) => `/channels/${encodeURIComponent(slug)}/auth`,
+  CHANNEL_PRESENCE: (slug: string) => `/channels/${encodeURIComponent(slug)}/presence`,
+} as const;
+
+/**
+ * WebSocket ready states, shared by all standard-conforming implementations
+ */
+export const WS_READY_STATE = {
+  CONNECTING: 0,
+  OPEN: 1,
+  CLOSING: 2,
+  CLOSED: 3,
+} as const;
+
+/**
+ * WebSocket close codes that decide how the client reconnects
+ */
+export const WS_CLOSE_CODES = {
+  /** Server shutting down or moving the client; reconnect immediately */
+  GOING_AWAY: 1001,
+  /** Server restarting; reconnect immediately */
+  SERVICE_RESTART: 1012,
+  /** Server overloaded; reconnect after the requested delay */
+  TRY_AGAIN_LATER: 1013,
+  /** Key or token rejected; do not reconnect */
+  UNAUTHORIZED: 4001,
+  /** Token expired; reconnect immediately with a fresh token */
+  TOKEN_EXPIRED: 4002,
+  /** Key lacks permission to connect; do not reconnect */
+  FORBIDDEN: 4003,
+  /** Too many connections; reconnect after the requested delay */
+  RATE_LIMITED: 4029,
 } as const;
 
 /**
@@ -54,6 +134,9 @@ export const WS_CLIENT_MESSAGES = {
   UNSUBSCRIBE: 'unsubscribe',
   PING: 'ping',
   ACK: 'ack',
+  AUTH: 'auth',
+  PUBLISH: 'publish',
+  PRESENCE: 'presence',
 } as const;
 
 /**
@@ -61,9 +144,12 @@ export const WS_CLIENT_MESSAGES = {
  */
 export const WS_SERVER_MESSAGES = {
   CONNECTED: 'connected',
+  AUTHENTICATED: 'authenticated',
   SUBSCRIBED: 'subscribed',
   UNSUBSCRIBED: 'unsubscribed',
   MESSAGE: 'message',
+  PUBLISHED: 'published',
+  PRESENCE: 'presence',
   ERROR: 'error',
   PONG: 'pong',
 } as const;
@@ -76,11 +162,23 @@ export const ERROR_CODES = {
   CONNECTION_FAILED: 'CONNECTION_FAILED',
   CONNECTION_TIMEOUT: 'CONNECTION_TIMEOUT',
   CONNECTION_CLOSED: 'CONNECTION_CLOSED',
+  MAX_RECONNECT_ATTEMPTS: 'MAX_RECONNECT_ATTEMPTS',
+  SERVER_GOING_AWAY: 'SERVER_GOING_AWAY',
+  GOING_AWAY: 'GOING_AWAY',
 
   // Authentication errors
   INVALID_API_KEY: 'INVALID_API_KEY',
   UNAUTHORIZED: 'UNAUTHORIZED',
+  INVALID_TOKEN: 'INVALID_TOKEN',
   FORBIDDEN: 'FORBIDDEN',
+  TOKEN_FETCH_FAILED: 'TOKEN_FETCH_FAILED',
+  TOKEN_EXPIRED: 'TOKEN_EXPIRED',
+  CHANNEL_AUTH_FAILED: 'CHANNEL_AUTH_FAILED',
+
+  // Encryption errors
+  DECRYPTION_FAILED: 'DECRYPTION_FAILED',
+  DECRYPTION_KEY_NOT_FOUND: 'DECRYPTION_KEY_NOT_FOUND',
+  MESSAGE_NOT_ENCRYPTED: 'MESSAGE_NOT_ENCRYPTED',
 
   // Network errors
   NETWORK_ERROR: 'NETWORK_ERROR',
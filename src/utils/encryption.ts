@@ -0,0 +1,124 @@
+import { DecryptionError } from '../errors/DecryptionError.js';
+import { ERROR_CODES } from './constants.js';
+import type { EncryptedEnvelope, EncryptionKey } from '../types/encryption.js';
+import type { Message } from '../types/message.js';
+
+/** Content field holding the envelope of an encrypted message */
+export const ENCRYPTED_CONTENT_KEY = '_encrypted';
+
+/** Imported base64 keys, so each is only imported once */
+const importedKeys: Map<string, Promise<CryptoKey>> = new Map();
+
+function getSubtle(): SubtleCrypto {
+  const subtle = globalThis.crypto?.subtle;
+  if (!subtle) {
+    throw new Error('WebCrypto is not available in this environment');
+  }
+  return subtle;
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+}
+
+function fromBase64(value: string): Uint8Array<ArrayBuffer> {
+  return Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+}
+
+function resolveKey(key: EncryptionKey): Promise<CryptoKey> {
+  if (typeof key.key !== 'string') {
+    return Promise.resolve(key.key);
+  }
+
+  const raw = key.key;
+  let imported = importedKeys.get(raw);
+  if (!imported) {
+    imported = getSubtle().importKey('raw', fromBase64(raw), 'AES-GCM', false, ['encrypt', 'decrypt']);
+    imported.catch(() => importedKeys.delete(raw));
+    importedKeys.set(raw, imported);
+  }
+  return imported;
+}
+
+/**
+ * Get the envelope of encrypted content, or null if the content is not encrypted
+ */
+export function getEncryptedEnvelope(content: Record<string, unknown>): EncryptedEnvelope | null {
+  const envelope = content[ENCRYPTED_CONTENT_KEY] as Partial<EncryptedEnvelope> | undefined;
+  if (
+    envelope?.alg === 'AES-GCM' &&
+    typeof envelope.keyId === 'string' &&
+    typeof envelope.iv === 'string' &&
+    typeof envelope.ciphertext === 'string'
+  ) {
+    return envelope as EncryptedEnvelope;
+  }
+  return null;
+}
+
+/**
+ * Encrypt message content with AES-GCM, wrapping it in an envelope
+ */
+export async function encryptContent(
+  content: Record<string, unknown>,
+  key: EncryptionKey
+): Promise<Record<string, unknown>> {
+  const iv = globalThis.crypto.getRandomValues(new Uint8Array(12));
+  const plaintext = new TextEncoder().encode(JSON.stringify(content));
+  const ciphertext = await getSubtle().encrypt({ name: 'AES-GCM', iv }, await resolveKey(key), plaintext);
+
+  const envelope: EncryptedEnvelope = {
+    alg: 'AES-GCM',
+    keyId: key.id,
+    iv: toBase64(iv),
+    ciphertext: toBase64(new Uint8Array(ciphertext)),
+  };
+  return { [ENCRYPTED_CONTENT_KEY]: envelope };
+}
+
+/**
+ * Decrypt a message's content with the key matching its envelope
+ *
+ * Messages that are not encrypted are rejected unless `allowUnencrypted` is set, in which case
+ * they are returned unchanged.
+ *
+ * @throws {DecryptionError} If the message is not encrypted, no key matches or the content cannot be decrypted
+ */
+export async function decryptMessage(
+  message: Message,
+  keys: EncryptionKey | EncryptionKey[],
+  options: { allowUnencrypted?: boolean } = {}
+): Promise<Message> {
+  const envelope = getEncryptedEnvelope(message.content);
+  if (!envelope) {
+    if (options.allowUnencrypted) {
+      return message;
+    }
+    throw DecryptionError.notEncrypted(message.id);
+  }
+
+  const key = (Array.isArray(keys) ? keys : [keys]).find((candidate) => candidate.id === envelope.keyId);
+  if (!key) {
+    throw DecryptionError.unknownKey(envelope.keyId, message.id);
+  }
+
+  try {
+    const plaintext = await getSubtle().decrypt(
+      { name: 'AES-GCM', iv: fromBase64(envelope.iv) },
+      await resolveKey(key),
+      fromBase64(envelope.ciphertext)
+    );
+    const content = JSON.parse(new TextDecoder().decode(plaintext)) as Record<string, unknown>;
+    return { ...message, content };
+  } catch (error) {
+    throw new DecryptionError(
+      `Failed to decrypt message '${message.id}' with key '${envelope.keyId}'`,
+      ERROR_CODES.DECRYPTION_FAILED,
+      { messageId: message.id, keyId: envelope.keyId, cause: error instanceof Error ? error : undefined }
+    );
+  }
+}
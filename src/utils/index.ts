@@ -1,4 +1,6 @@
 export { TypedEventEmitter, type EventMap, type EventHandler } from './EventEmitter.js';
 export { retry, calculateBackoff, sleep, createRetry, type RetryOptions } from './retry.js';
 export { Logger, createLogger, type LogLevel, type LoggerOptions } from './logger.js';
-export { DEFAULTS, API_PATHS, WS_CLIENT_MESSAGES, WS_SERVER_MESSAGES, ERROR_CODES } from './constants.js';
+export { DEFAULTS, API_PATHS, WS_CLIENT_MESSAGES, WS_SERVER_MESSAGES, WS_READY_STATE, ERROR_CODES } from './constants.js';
+export { jsonCodec, msgpackCodec, resolveCodec } from './codec.js';
+export { encodeMsgPack, decodeMsgPack } from './msgpack.js';
@@ -0,0 +1,319 @@
+/**
+ * Minimal MessagePack encoder/decoder
+ *
+ * Covers the JSON data model plus binary (`Uint8Array`) values. Values JSON would
+ * drop (undefined, functions) are left out of maps and encoded as nil in arrays.
+ * Extension types are not supported.
+ */
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+class Writer {
+  private bytes = new Uint8Array(256);
+  private view = new DataView(this.bytes.buffer);
+  private pos = 0;
+
+  u8(value: number): void {
+    this.ensure(1);
+    this.view.setUint8(this.pos, value);
+    this.pos += 1;
+  }
+
+  u16(value: number): void {
+    this.ensure(2);
+    this.view.setUint16(this.pos, value);
+    this.pos += 2;
+  }
+
+  u32(value: number): void {
+    this.ensure(4);
+    this.view.setUint32(this.pos, value);
+    this.pos += 4;
+  }
+
+  i64(value: bigint): void {
+    this.ensure(8);
+    this.view.setBigInt64(this.pos, value);
+    this.pos += 8;
+  }
+
+  u64(value: bigint): void {
+    this.ensure(8);
+    this.view.setBigUint64(this.pos, value);
+    this.pos += 8;
+  }
+
+  f64(value: number): void {
+    this.ensure(8);
+    this.view.setFloat64(this.pos, value);
+    this.pos += 8;
+  }
+
+  raw(data: Uint8Array): void {
+    this.ensure(data.length);
+    this.bytes.set(data, this.pos);
+    this.pos += data.length;
+  }
+
+  result(): Uint8Array {
+    return this.bytes.slice(0, this.pos);
+  }
+
+  private ensure(size: number): void {
+    if (this.pos + size <= this.bytes.length) {
+      return;
+    }
+    let length = this.bytes.length * 2;
+    while (length < this.pos + size) {
+      length *= 2;
+    }
+    const bytes = new Uint8Array(length);
+    bytes.set(this.bytes);
+    this.bytes = bytes;
+    this.view = new DataView(bytes.buffer);
+  }
+}
+
+function isOmitted(value: unknown): boolean {
+  return value === undefined || typeof value === 'function' || typeof value === 'symbol';
+}
+
+function writeLength(writer: Writer, length: number, fix: number, fixMax: number, codes: number[]): void {
+  if (length <= fixMax) {
+    writer.u8(fix | length);
+  } else if (length < 0x10000 && codes.length === 2) {
+    writer.u8(codes[0]!);
+    writer.u16(length);
+  } else if (length < 0x100 && codes.length === 3) {
+    writer.u8(codes[0]!);
+    writer.u8(length);
+  } else if (length < 0x10000 && codes.length === 3) {
+    writer.u8(codes[1]!);
+    writer.u16(length);
+  } else {
+    writer.u8(codes[codes.length - 1]!);
+    writer.u32(length);
+  }
+}
+
+function writeInteger(writer: Writer, value: number): void {
+  if (value >= 0) {
+    if (value < 0x80) {
+      writer.u8(value);
+    } else if (value < 0x100) {
+      writer.u8(0xcc);
+      writer.u8(value);
+    } else if (value < 0x10000) {
+      writer.u8(0xcd);
+      writer.u16(value);
+    } else if (value < 0x100000000) {
+      writer.u8(0xce);
+      writer.u32(value);
+    } else {
+      writer.u8(0xcf);
+      writer.u64(BigInt(value));
+    }
+  } else if (value >= -0x20) {
+    writer.u8(value & 0xff);
+  } else if (value >= -0x80) {
+    writer.u8(0xd0);
+    writer.u8(value & 0xff);
+  } else if (value >= -0x8000) {
+    writer.u8(0xd1);
+    writer.u16(value & 0xffff);
+  } else if (value >= -0x80000000) {
+    writer.u8(0xd2);
+    writer.u32(value >>> 0);
+  } else {
+    writer.u8(0xd3);
+    writer.i64(BigInt(value));
+  }
+}
+
+function writeValue(writer: Writer, value: unknown): void {
+  if (value === null || isOmitted(value)) {
+    writer.u8(0xc0);
+    return;
+  }
+
+  if (typeof value === 'boolean') {
+    writer.u8(value ? 0xc3 : 0xc2);
+    return;
+  }
+
+  if (typeof value === 'number') {
+    if (Number.isSafeInteger(value)) {
+      writeInteger(writer, value);
+    } else {
+      writer.u8(0xcb);
+      writer.f64(value);
+    }
+    return;
+  }
+
+  if (typeof value === 'bigint') {
+    writer.u8(value < 0n ? 0xd3 : 0xcf);
+    if (value < 0n) {
+      writer.i64(value);
+    } else {
+      writer.u64(value);
+    }
+    return;
+  }
+
+  if (typeof value === 'string') {
+    const bytes = textEncoder.encode(value);
+    writeLength(writer, bytes.length, 0xa0, 0x1f, [0xd9, 0xda, 0xdb]);
+    writer.raw(bytes);
+    return;
+  }
+
+  if (value instanceof Uint8Array || value instanceof ArrayBuffer) {
+    const bytes = value instanceof Uint8Array ? value : new Uint8Array(value);
+    writeLength(writer, bytes.length, 0, -1, [0xc4, 0xc5, 0xc6]);
+    writer.raw(bytes);
+    return;
+  }
+
+  // Other typed arrays (e.g. Float64Array) are sent as plain arrays of numbers
+  if (Array.isArray(value) || ArrayBuffer.isView(value)) {
+    const items = Array.isArray(value) ? value : Array.from(value as unknown as ArrayLike<number>);
+    writeLength(writer, items.length, 0x90, 0x0f, [0xdc, 0xdd]);
+    items.forEach((item) => writeValue(writer, item));
+    return;
+  }
+
+  const withToJSON = value as { toJSON?: () => unknown };
+  if (typeof withToJSON.toJSON === 'function') {
+    writeValue(writer, withToJSON.toJSON());
+    return;
+  }
+
+  const entries = Object.entries(value as Record<string, unknown>).filter(([, item]) => !isOmitted(item));
+  writeLength(writer, entries.length, 0x80, 0x0f, [0xde, 0xdf]);
+  entries.forEach(([key, item]) => {
+    writeValue(writer, key);
+    writeValue(writer, item);
+  });
+}
+
+/**
+ * Encode a value as MessagePack
+ */
+export function encodeMsgPack(value: unknown): Uint8Array {
+  const writer = new Writer();
+  writeValue(writer, value);
+  return writer.result();
+}
+
+class Reader {
+  private readonly view: DataView;
+  private pos = 0;
+
+  constructor(private readonly bytes: Uint8Array) {
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  }
+
+  read(): unknown {
+    const code = this.u8();
+
+    if (code < 0x80) return code;
+    if (code < 0x90) return this.map(code & 0x0f);
+    if (code < 0xa0) return this.array(code & 0x0f);
+    if (code < 0xc0) return this.str(code & 0x1f);
+    if (code >= 0xe0) return code - 0x100;
+
+    switch (code) {
+      case 0xc0: return null;
+      case 0xc2: return false;
+      case 0xc3: return true;
+      case 0xc4: return this.bin(this.u8());
+      case 0xc5: return this.bin(this.u16());
+      case 0xc6: return this.bin(this.u32());
+      case 0xca: return this.take(4, (offset) => this.view.getFloat32(offset));
+      case 0xcb: return this.take(8, (offset) => this.view.getFloat64(offset));
+      case 0xcc: return this.u8();
+      case 0xcd: return this.u16();
+      case 0xce: return this.u32();
+      case 0xcf: return Number(this.take(8, (offset) => this.view.getBigUint64(offset)));
+      case 0xd0: return this.take(1, (offset) => this.view.getInt8(offset));
+      case 0xd1: return this.take(2, (offset) => this.view.getInt16(offset));
+      case 0xd2: return this.take(4, (offset) => this.view.getInt32(offset));
+      case 0xd3: return Number(this.take(8, (offset) => this.view.getBigInt64(offset)));
+      case 0xd9: return this.str(this.u8());
+      case 0xda: return this.str(this.u16());
+      case 0xdb: return this.str(this.u32());
+      case 0xdc: return this.array(this.u16());
+      case 0xdd: return this.array(this.u32());
+      case 0xde: return this.map(this.u16());
+      case 0xdf: return this.map(this.u32());
+      default:
+        throw new Error(`Unsupported MessagePack type 0x${code.toString(16)}`);
+    }
+  }
+
+  get done(): boolean {
+    return this.pos >= this.bytes.length;
+  }
+
+  private u8(): number {
+    return this.take(1, (offset) => this.view.getUint8(offset));
+  }
+
+  private u16(): number {
+    return this.take(2, (offset) => this.view.getUint16(offset));
+  }
+
+  private u32(): number {
+    return this.take(4, (offset) => this.view.getUint32(offset));
+  }
+
+  private take<T>(size: number, read: (offset: number) => T): T {
+    if (this.pos + size > this.bytes.length) {
+      throw new Error('Unexpected end of MessagePack data');
+    }
+    const value = read(this.pos);
+    this.pos += size;
+    return value;
+  }
+
+  private bin(length: number): Uint8Array {
+    return this.take(length, (offset) => this.bytes.slice(offset, offset + length));
+  }
+
+  private str(length: number): string {
+    return this.take(length, (offset) => textDecoder.decode(this.bytes.subarray(offset, offset + length)));
+  }
+
+  private array(length: number): unknown[] {
+    const items: unknown[] = [];
+    for (let i = 0; i < length; i++) {
+      items.push(this.read());
+    }
+    return items;
+  }
+
+  private map(length: number): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+    for (let i = 0; i < length; i++) {
+      const key = String(this.read());
+      // defineProperty so a '__proto__' key cannot replace the prototype
+      Object.defineProperty(result, key, { value: this.read(), enumerable: true, writable: true, configurable: true });
+    }
+    return result;
+  }
+}
+
+/**
+ * Decode a MessagePack value
+ * @throws {Error} If the data is malformed or uses extension types
+ */
+export function decodeMsgPack(bytes: Uint8Array): unknown {
+  const reader = new Reader(bytes);
+  const value = reader.read();
+  if (!reader.done) {
+    throw new Error('Unexpected trailing MessagePack data');
+  }
+  return value;
+}
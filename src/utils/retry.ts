@@ -1,4 +1,5 @@
 import { DEFAULTS } from './constants.js';
+import type { RetryStrategy } from '../types/connection.js';
 
 export interface RetryOptions {
   /** Maximum number of retry attempts (0 = infinite) */
@@ -9,6 +10,8 @@ export interface RetryOptions {
   maxDelay?: number;
   /** Delay multiplier for exponential backoff */
   multiplier?: number;
+  /** Strategy deciding the delay before each retry (replaces initialDelay, maxDelay and multiplier) */
+  strategy?: RetryStrategy;
   /** Function to determine if error is retryable */
   isRetryable?: (error: unknown) => boolean;
   /** Callback for each retry attempt */
@@ -17,6 +20,22 @@ export interface RetryOptions {
   signal?: AbortSignal;
 }
 
+export interface BackoffOptions {
+  /** Delay before the first retry in milliseconds */
+  initialDelay?: number;
+  /** Maximum delay in milliseconds */
+  maxDelay?: number;
+  /** Give up after this many retries (0 = never) */
+  maxAttempts?: number;
+}
+
+export interface ExponentialBackoffOptions extends BackoffOptions {
+  /** Delay multiplier for each retry */
+  multiplier?: number;
+  /** Random spread as a fraction of the delay (default: 0.25, i.e. ±25%) */
+  jitter?: number;
+}
+
 /**
  * Calculate delay with exponential backoff and jitter
  */
@@ -26,12 +45,14 @@ export function calculateBackoff(
     initialDelay?: number;
     maxDelay?: number;
     multiplier?: number;
+    jitter?: number;
   } = {}
 ): number {
   const {
     initialDelay = DEFAULTS.RECONNECT_DELAY,
     maxDelay = DEFAULTS.MAX_RECONNECT_DELAY,
     multiplier = DEFAULTS.RECONNECT_MULTIPLIER,
+    jitter = 0.25,
   } = options;
 
   // Exponential backoff
@@ -40,10 +61,85 @@ export function calculateBackoff(
   // Cap at max delay
   const cappedDelay = Math.min(exponentialDelay, maxDelay);
 
-  // Add jitter (±25%)
-  const jitter = cappedDelay * 0.25 * (Math.random() * 2 - 1);
+  // Add jitter (±25% by default)
+  const spread = cappedDelay * jitter * (Math.random() * 2 - 1);
+
+  return Math.floor(cappedDelay + spread);
+}
+
+/**
+ * Exponential backoff with jitter (the default strategy)
+ */
+export function exponentialBackoff(options: ExponentialBackoffOptions = {}): RetryStrategy {
+  const { maxAttempts = 0, ...backoff } = options;
+
+  return {
+    nextDelay: ({ attempt }) =>
+      attemptsExhausted(attempt, maxAttempts) ? null : calculateBackoff(attempt, backoff),
+  };
+}
+
+/**
+ * Decorrelated jitter: each delay is random between `initialDelay` and three times the previous one
+ *
+ * Spreads out clients that failed together better than exponential backoff does.
+ */
+export function decorrelatedJitter(options: BackoffOptions = {}): RetryStrategy {
+  const {
+    initialDelay = DEFAULTS.RECONNECT_DELAY,
+    maxDelay = DEFAULTS.MAX_RECONNECT_DELAY,
+    maxAttempts = 0,
+  } = options;
+
+  return {
+    nextDelay: ({ attempt, previousDelay }) => {
+      if (attemptsExhausted(attempt, maxAttempts)) {
+        return null;
+      }
 
-  return Math.floor(cappedDelay + jitter);
+      const upper = Math.max(initialDelay, (previousDelay ?? initialDelay) * 3);
+      const delay = initialDelay + Math.random() * (upper - initialDelay);
+      return Math.floor(Math.min(delay, maxDelay));
+    },
+  };
+}
+
+/**
+ * The same delay before every retry
+ */
+export function fixedDelay(delay: number, options: Pick<BackoffOptions, 'maxAttempts'> = {}): RetryStrategy {
+  const { maxAttempts = 0 } = options;
+
+  return {
+    nextDelay: ({ attempt }) => (attemptsExhausted(attempt, maxAttempts) ? null : delay),
+  };
+}
+
+/**
+ * Delays growing along the Fibonacci sequence (1, 1, 2, 3, 5, 8, ... times `initialDelay`)
+ *
+ * Grows more gently than exponential backoff, without jitter.
+ */
+export function fibonacciBackoff(options: BackoffOptions = {}): RetryStrategy {
+  const {
+    initialDelay = DEFAULTS.RECONNECT_DELAY,
+    maxDelay = DEFAULTS.MAX_RECONNECT_DELAY,
+    maxAttempts = 0,
+  } = options;
+
+  return {
+    nextDelay: ({ attempt }) => {
+      if (attemptsExhausted(attempt, maxAttempts)) {
+        return null;
+      }
+
+      let [current, next] = [1, 1];
+      for (let i = 0; i < attempt && current * initialDelay < maxDelay; i++) {
+        [current, next] = [next, current + next];
+      }
+      return Math.min(current * initialDelay, maxDelay);
+    },
+  };
 }
 
 /**
@@ -81,6 +177,7 @@ export async function retry<T>(
     initialDelay = DEFAULTS.RECONNECT_DELAY,
     maxDelay = DEFAULTS.MAX_RECONNECT_DELAY,
     multiplier = DEFAULTS.RECONNECT_MULTIPLIER,
+    strategy = exponentialBackoff({ initialDelay, maxDelay, multiplier }),
     isRetryable = () => true,
     onRetry,
     signal,
@@ -88,6 +185,7 @@ export async function retry<T>(
 
   let lastError: unknown;
   let attempt = 0;
+  let previousDelay: number | null = null;
 
   while (maxAttempts === 0 || attempt < maxAttempts) {
     try {
@@ -113,8 +211,12 @@ export async function retry<T>(
         throw error;
       }
 
-      // Calculate delay
-      const delay = calculateBackoff(attempt, { initialDelay, maxDelay, multiplier });
+      // Calculate delay; the strategy may give up early
+      const delay = strategy.nextDelay({ attempt, error, previousDelay });
+      if (delay === null) {
+        throw error;
+      }
+      previousDelay = delay;
 
       // Notify retry callback
       onRetry?.(attempt + 1, delay, error);
@@ -137,3 +239,7 @@ export function createRetry(defaultOptions: RetryOptions) {
     return retry(fn, { ...defaultOptions, ...options });
   };
 }
+
+function attemptsExhausted(attempt: number, maxAttempts: number): boolean {
+  return maxAttempts > 0 && attempt >= maxAttempts;
+}
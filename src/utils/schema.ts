@@ -0,0 +1,49 @@
+import { ValidationError } from '../errors/ValidationError.js';
+import { getEncryptedEnvelope } from './encryption.js';
+import type { Message } from '../types/message.js';
+import type { ChannelMap, ChannelValidators } from '../types/schema.js';
+
+/**
+ * Check content against the validator registered for its channel and event type
+ *
+ * Content without a validator is returned unchanged.
+ *
+ * @returns The content returned by the validator
+ * @throws {ValidationError} If the validator rejects the content
+ */
+export function validateContent(
+  validators: ChannelValidators<ChannelMap> | undefined,
+  channel: string,
+  eventType: string,
+  content: object
+): Record<string, unknown> {
+  const validator = validators?.[channel]?.[eventType];
+  if (!validator) {
+    return content as Record<string, unknown>;
+  }
+
+  try {
+    return validator.parse(content) as Record<string, unknown>;
+  } catch (error) {
+    throw ValidationError.invalidContent(channel, eventType, error instanceof Error ? error : undefined);
+  }
+}
+
+/**
+ * Check a received message's content, returning the message with the validated content
+ *
+ * Content that is still encrypted is passed through; it is checked once decrypted.
+ *
+ * @throws {ValidationError} If the validator rejects the content
+ */
+export function validateMessage(
+  validators: ChannelValidators<ChannelMap> | undefined,
+  message: Message
+): Message {
+  if (getEncryptedEnvelope(message.content)) {
+    return message;
+  }
+
+  const content = validateContent(validators, message.channel, message.eventType, message.content);
+  return content === message.content ? message : { ...message, content };
+}
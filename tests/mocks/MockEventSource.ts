@@ -0,0 +1,52 @@
+import type { MockWebSocketMessage } from './MockWebSocket.js';
+
+/**
+ * Mock EventSource for testing the SSE fallback
+ */
+export class MockEventSource {
+  static instances: MockEventSource[] = [];
+
+  readonly url: string;
+  closed = false;
+
+  onopen: ((event: Event) => void) | null = null;
+  onerror: ((event: Event) => void) | null = null;
+  onmessage: ((event: MessageEvent) => void) | null = null;
+
+  constructor(url: string) {
+    this.url = url;
+    MockEventSource.instances.push(this);
+  }
+
+  /**
+   * Simulate the stream opening
+   */
+  simulateOpen(): void {
+    this.onopen?.(new Event('open'));
+  }
+
+  /**
+   * Simulate receiving a frame
+   */
+  simulateMessage(data: MockWebSocketMessage): void {
+    this.onmessage?.(new MessageEvent('message', { data: JSON.stringify(data) }));
+  }
+
+  /**
+   * Simulate a stream error
+   */
+  simulateError(): void {
+    this.onerror?.(new Event('error'));
+  }
+
+  close(): void {
+    this.closed = true;
+  }
+
+  /**
+   * Forget all tracked instances
+   */
+  static reset(): void {
+    MockEventSource.instances = [];
+  }
+}
@@ -0,0 +1,43 @@
+import type { NetworkStatusSource } from '../../src/types/connection.js';
+
+/**
+ * Mock network and visibility status for testing
+ */
+export class MockNetworkStatus implements NetworkStatusSource {
+  online = true;
+  visible = true;
+  private listeners: Set<() => void> = new Set();
+
+  isOnline(): boolean {
+    return this.online;
+  }
+
+  isVisible(): boolean {
+    return this.visible;
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Simulate the network going offline or coming back
+   */
+  setOnline(online: boolean): void {
+    this.online = online;
+    this.listeners.forEach((listener) => listener());
+  }
+
+  /**
+   * Simulate the page being hidden or shown
+   */
+  setVisible(visible: boolean): void {
+    this.visible = visible;
+    this.listeners.forEach((listener) => listener());
+  }
+
+  get listenerCount(): number {
+    return this.listeners.size;
+  }
+}
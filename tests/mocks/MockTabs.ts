@@ -0,0 +1,84 @@
+import type { BroadcastChannelLike, LockManagerLike } from '../../src/types/connection.js';
+
+/**
+ * In-memory BroadcastChannel connecting instances created in the same test, as if in separate tabs
+ */
+export class MockBroadcastChannel implements BroadcastChannelLike {
+  private static channels: Map<string, Set<MockBroadcastChannel>> = new Map();
+
+  onmessage: ((event: { data: unknown }) => void) | null = null;
+
+  constructor(readonly name: string) {
+    const peers = MockBroadcastChannel.channels.get(name) ?? new Set();
+    peers.add(this);
+    MockBroadcastChannel.channels.set(name, peers);
+  }
+
+  postMessage(message: unknown): void {
+    const data = structuredClone(message);
+    MockBroadcastChannel.channels.get(this.name)?.forEach((peer) => {
+      if (peer !== this) {
+        queueMicrotask(() => peer.onmessage?.({ data }));
+      }
+    });
+  }
+
+  close(): void {
+    MockBroadcastChannel.channels.get(this.name)?.delete(this);
+  }
+
+  static reset(): void {
+    MockBroadcastChannel.channels.clear();
+  }
+}
+
+interface LockRequest {
+  callback: () => Promise<void>;
+  resolve: (value: unknown) => void;
+}
+
+/**
+ * In-memory Web Locks implementation granting each lock to one holder at a time, in request order
+ */
+export class MockLockManager implements LockManagerLike {
+  private readonly held: Set<string> = new Set();
+  private readonly queues: Map<string, LockRequest[]> = new Map();
+
+  request(name: string, options: { signal?: AbortSignal }, callback: () => Promise<void>): Promise<unknown> {
+    return new Promise((resolve, reject) => {
+      const request: LockRequest = { callback, resolve };
+      const queue = this.queues.get(name) ?? [];
+      queue.push(request);
+      this.queues.set(name, queue);
+
+      options.signal?.addEventListener('abort', () => {
+        const index = queue.indexOf(request);
+        if (index >= 0) {
+          queue.splice(index, 1);
+          reject(new Error('Lock request aborted'));
+        }
+      });
+
+      this.grant(name);
+    });
+  }
+
+  private grant(name: string): void {
+    if (this.held.has(name)) {
+      return;
+    }
+    const next = this.queues.get(name)?.shift();
+    if (!next) {
+      return;
+    }
+
+    this.held.add(name);
+    Promise.resolve()
+      .then(() => next.callback())
+      .then((result) => {
+        this.held.delete(name);
+        next.resolve(result);
+        this.grant(name);
+      });
+  }
+}
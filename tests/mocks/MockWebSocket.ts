@@ -22,7 +22,8 @@ export class MockWebSocket {
   onerror: ((event: Event) => void) | null = null;
   onmessage: ((event: MessageEvent) => void) | null = null;
 
-  sentMessages: string[] = [];
+  sentMessages: (string | Uint8Array)[] = [];
+  binaryType = 'blob';
 
   // Track close parameters for verification if needed
   lastCloseCode?: number;
@@ -49,12 +50,20 @@ export class MockWebSocket {
     this.onmessage?.(event);
   }
 
+  /**
+   * Simulate receiving a binary frame
+   */
+  simulateBinaryMessage(data: ArrayBuffer | Blob): void {
+    this.onmessage?.(new MessageEvent('message', { data }));
+  }
+
   /**
    * Simulate connection closed
    */
   simulateClose(code = 1000, reason = ''): void {
     this.readyState = MockWebSocket.CLOSED;
-    const event = new CloseEvent('close', { code, reason, wasClean: code === 1000 });
+    // happy-dom's CloseEvent ignores its init dictionary, so set the fields explicitly
+    const event = Object.assign(new CloseEvent('close'), { code, reason, wasClean: code === 1000 });
     this.onclose?.(event);
   }
 
@@ -69,7 +78,7 @@ export class MockWebSocket {
   /**
    * Send a message (captured for testing)
    */
-  send(data: string): void {
+  send(data: string | Uint8Array): void {
     if (this.readyState !== MockWebSocket.OPEN) {
       throw new Error('WebSocket is not open');
     }
@@ -93,7 +102,7 @@ export class MockWebSocket {
    * Get parsed sent messages
    */
   getSentMessages(): MockWebSocketMessage[] {
-    return this.sentMessages.map((msg) => JSON.parse(msg) as MockWebSocketMessage);
+    return this.sentMessages.map((msg) => JSON.parse(String(msg)) as MockWebSocketMessage);
   }
 
   /**
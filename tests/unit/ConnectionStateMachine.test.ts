@@ -64,7 +64,62 @@ describe('ConnectionStateMachine', () => {
     machine.onChange(listener);
     machine.transition('connecting');
 
-    expect(listener).toHaveBeenCalledWith('connecting');
+    expect(listener).toHaveBeenCalledWith('connecting', expect.objectContaining({ attempt: 0 }));
+  });
+
+  it('should allow reconnecting and failed transitions', () => {
+    const machine = new ConnectionStateMachine();
+    machine.transition('connecting');
+    machine.transition('connected');
+
+    // connected -> reconnecting -> connecting
+    expect(machine.transition('reconnecting')).toBe(true);
+    expect(machine.isReconnecting).toBe(true);
+    expect(machine.transition('connecting')).toBe(true);
+
+    // connecting -> error -> failed
+    machine.transition('error');
+    expect(machine.transition('failed')).toBe(true);
+    expect(machine.isFailed).toBe(true);
+
+    // failed is terminal until a new connect
+    expect(machine.transition('reconnecting')).toBe(false);
+    expect(machine.transition('connecting')).toBe(true);
+  });
+
+  it('should pass details to listeners and clear nextRetryAt on each transition', () => {
+    const machine = new ConnectionStateMachine();
+    const listener = vi.fn();
+    machine.onChange(listener);
+    machine.transition('connecting');
+    machine.transition('connected');
+
+    const error = new Error('Connection lost');
+    machine.transition('reconnecting', { attempt: 1, nextRetryAt: 5000, lastError: error, lastCloseCode: 1006 });
+    expect(listener).toHaveBeenLastCalledWith('reconnecting', {
+      attempt: 1,
+      nextRetryAt: 5000,
+      lastError: error,
+      lastCloseCode: 1006,
+    });
+
+    machine.transition('connecting');
+    expect(machine.details).toEqual({ attempt: 1, nextRetryAt: null, lastError: error, lastCloseCode: 1006 });
+  });
+
+  it('should notify listeners when details of the current state change', () => {
+    const machine = new ConnectionStateMachine();
+    machine.transition('connecting');
+    machine.transition('connected');
+    machine.transition('reconnecting', { attempt: 1 });
+
+    const listener = vi.fn();
+    machine.onChange(listener);
+    machine.transition('reconnecting', { attempt: 1 });
+    expect(listener).not.toHaveBeenCalled();
+
+    machine.transition('reconnecting', { attempt: 1, nextRetryAt: 1000 });
+    expect(listener).toHaveBeenCalledWith('reconnecting', expect.objectContaining({ nextRetryAt: 1000 }));
   });
 
   it('should not notify listeners when staying in same state', () => {
@@ -168,6 +168,49 @@ describe('Heartbeat', () => {
     expect(onTimeout).toHaveBeenCalled();
   });
 
+  it('should return the round-trip time of the answered ping', () => {
+    const heartbeat = new Heartbeat({
+      interval: 1000,
+      onPing: vi.fn(),
+    });
+
+    heartbeat.start();
+    vi.advanceTimersByTime(1000);
+    vi.advanceTimersByTime(150);
+
+    expect(heartbeat.receivedPong()).toBe(150);
+
+    // No ping outstanding
+    expect(heartbeat.receivedPong()).toBeNull();
+  });
+
+  it('should call onLate once when a pong is overdue', () => {
+    const onLate = vi.fn();
+    const onTimeout = vi.fn();
+    const heartbeat = new Heartbeat({
+      interval: 1000,
+      pongTimeout: 2000,
+      lateAfter: 500,
+      onPing: vi.fn(),
+      onLate,
+      onTimeout,
+    });
+
+    heartbeat.start();
+    vi.advanceTimersByTime(1000);
+
+    vi.advanceTimersByTime(499);
+    expect(onLate).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(1);
+    expect(onLate).toHaveBeenCalledTimes(1);
+    expect(onTimeout).not.toHaveBeenCalled();
+
+    heartbeat.receivedPong();
+    vi.advanceTimersByTime(1200);
+    expect(onLate).toHaveBeenCalledTimes(1);
+  });
+
   it('should ignore receivedPong when not running', () => {
     const onPing = vi.fn();
     const heartbeat = new Heartbeat({
@@ -0,0 +1,116 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { LatencyTracker } from '../../src/client/LatencyTracker.js';
+
+describe('LatencyTracker', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const createTracker = (windowSize = 20) => {
+    const onQualityChange = vi.fn();
+    const tracker = new LatencyTracker({
+      windowSize,
+      thresholds: { degraded: 300, poor: 1000 },
+      onQualityChange,
+    });
+    return { tracker, onQualityChange };
+  };
+
+  it('should report no statistics before the first sample', () => {
+    const { tracker } = createTracker();
+
+    expect(tracker.getStats()).toEqual({
+      last: null,
+      average: null,
+      p95: null,
+      samples: 0,
+      clockOffset: null,
+    });
+    expect(tracker.quality).toBe('good');
+  });
+
+  it('should compute last, average and 95th percentile', () => {
+    const { tracker } = createTracker();
+
+    for (let rtt = 10; rtt <= 200; rtt += 10) {
+      tracker.record(rtt);
+    }
+
+    expect(tracker.getStats()).toMatchObject({
+      last: 200,
+      average: 105,
+      p95: 190,
+      samples: 20,
+    });
+  });
+
+  it('should keep only the most recent samples', () => {
+    const { tracker } = createTracker(3);
+
+    [500, 10, 20, 30].forEach((rtt) => tracker.record(rtt));
+
+    expect(tracker.getStats()).toMatchObject({ average: 20, samples: 3 });
+  });
+
+  it('should grade quality by the 95th percentile', () => {
+    const { tracker, onQualityChange } = createTracker(2);
+
+    tracker.record(100);
+    expect(tracker.quality).toBe('good');
+
+    tracker.record(400);
+    expect(tracker.quality).toBe('degraded');
+
+    tracker.record(1200);
+    expect(tracker.quality).toBe('poor');
+
+    tracker.record(50);
+    tracker.record(50);
+    expect(tracker.quality).toBe('good');
+
+    expect(onQualityChange.mock.calls).toEqual([['degraded'], ['poor'], ['good']]);
+  });
+
+  it('should be poor while a pong is late', () => {
+    const { tracker, onQualityChange } = createTracker();
+
+    tracker.record(50);
+    tracker.markLate();
+    expect(tracker.quality).toBe('poor');
+
+    tracker.record(60);
+    expect(tracker.quality).toBe('good');
+    expect(onQualityChange).toHaveBeenCalledTimes(2);
+  });
+
+  it('should estimate the clock offset from server timestamps', () => {
+    const { tracker } = createTracker();
+    const now = Date.now();
+
+    tracker.syncClock(now + 2000);
+    expect(tracker.getStats().clockOffset).toBe(2000);
+
+    // Stamped half a round trip before the pong arrived
+    tracker.record(200, now - 100 - 500);
+    expect(tracker.getStats().clockOffset).toBe(-500);
+
+    // Later syncs allow for half the average round trip
+    tracker.syncClock(now);
+    expect(tracker.getStats().clockOffset).toBe(100);
+  });
+
+  it('should forget samples on reset but keep the clock offset', () => {
+    const { tracker } = createTracker();
+
+    tracker.record(2000);
+    tracker.syncClock(Date.now() + 1000);
+    tracker.reset();
+
+    expect(tracker.getStats()).toMatchObject({ last: null, samples: 0, clockOffset: 2000 });
+    expect(tracker.quality).toBe('good');
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { MessageDeduplicator } from '../../src/client/MessageDeduplicator.js';
+import type { Message } from '../../src/types/message.js';
+
+describe('MessageDeduplicator', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const createMessage = (id: string, channel = 'test-channel'): Message => ({
+    id,
+    channel,
+    eventType: 'message',
+    clientId: 'client-1',
+    content: {},
+    timestamp: Date.now(),
+  });
+
+  it('should drop repeated message IDs', () => {
+    const deduplicator = new MessageDeduplicator({ maxSize: 10, maxAge: 60000 });
+
+    expect(deduplicator.isDuplicate(createMessage('msg-1'))).toBe(false);
+    expect(deduplicator.isDuplicate(createMessage('msg-1'))).toBe(true);
+    expect(deduplicator.isDuplicate(createMessage('msg-2'))).toBe(false);
+    expect(deduplicator.droppedCount).toBe(1);
+  });
+
+  it('should only remember recorded messages when checking without recording', () => {
+    const deduplicator = new MessageDeduplicator({ maxSize: 10, maxAge: 60000 });
+
+    expect(deduplicator.wasSeen(createMessage('msg-1'))).toBe(false);
+    expect(deduplicator.wasSeen(createMessage('msg-1'))).toBe(false);
+
+    deduplicator.record(createMessage('msg-1'));
+    expect(deduplicator.wasSeen(createMessage('msg-1'))).toBe(true);
+    expect(deduplicator.droppedCount).toBe(1);
+  });
+
+  it('should track channels separately', () => {
+    const deduplicator = new MessageDeduplicator({ maxSize: 10, maxAge: 60000 });
+
+    deduplicator.isDuplicate(createMessage('msg-1', 'orders'));
+
+    expect(deduplicator.isDuplicate(createMessage('msg-1', 'billing'))).toBe(false);
+  });
+
+  it('should forget the oldest IDs beyond maxSize', () => {
+    const deduplicator = new MessageDeduplicator({ maxSize: 2, maxAge: 60000 });
+
+    deduplicator.isDuplicate(createMessage('msg-1'));
+    deduplicator.isDuplicate(createMessage('msg-2'));
+    deduplicator.isDuplicate(createMessage('msg-3'));
+
+    expect(deduplicator.isDuplicate(createMessage('msg-1'))).toBe(false);
+    expect(deduplicator.isDuplicate(createMessage('msg-3'))).toBe(true);
+  });
+
+  it('should forget IDs older than maxAge', () => {
+    const deduplicator = new MessageDeduplicator({ maxSize: 10, maxAge: 1000 });
+
+    deduplicator.isDuplicate(createMessage('msg-1'));
+    vi.advanceTimersByTime(1000);
+
+    expect(deduplicator.isDuplicate(createMessage('msg-1'))).toBe(false);
+  });
+
+  it('should be disabled when maxSize is 0', () => {
+    const deduplicator = new MessageDeduplicator({ maxSize: 0, maxAge: 1000 });
+
+    deduplicator.isDuplicate(createMessage('msg-1'));
+
+    expect(deduplicator.isDuplicate(createMessage('msg-1'))).toBe(false);
+  });
+
+  it('should forget a channel', () => {
+    const deduplicator = new MessageDeduplicator({ maxSize: 10, maxAge: 60000 });
+
+    deduplicator.isDuplicate(createMessage('msg-1'));
+    deduplicator.forget('test-channel');
+
+    expect(deduplicator.isDuplicate(createMessage('msg-1'))).toBe(false);
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, it, expect, vi } from 'vitest';
+import { NetworkMonitor, createBrowserNetworkStatus } from '../../src/client/NetworkMonitor.js';
+import { MockNetworkStatus } from '../mocks/MockNetworkStatus.js';
+
+describe('NetworkMonitor', () => {
+  const createMonitor = (source?: MockNetworkStatus) => {
+    const callbacks = {
+      onOffline: vi.fn(),
+      onOnline: vi.fn(),
+      onHidden: vi.fn(),
+      onVisible: vi.fn(),
+    };
+    const monitor = new NetworkMonitor({ source, ...callbacks });
+    return { monitor, ...callbacks };
+  };
+
+  it('should report each transition once', () => {
+    const source = new MockNetworkStatus();
+    const { monitor, onOffline, onOnline, onHidden, onVisible } = createMonitor(source);
+    monitor.start();
+
+    source.setOnline(false);
+    source.setOnline(false);
+    expect(onOffline).toHaveBeenCalledTimes(1);
+    expect(monitor.isOnline).toBe(false);
+
+    source.setOnline(true);
+    source.setVisible(false);
+    source.setVisible(true);
+
+    expect(onOnline).toHaveBeenCalledTimes(1);
+    expect(onHidden).toHaveBeenCalledTimes(1);
+    expect(onVisible).toHaveBeenCalledTimes(1);
+  });
+
+  it('should read the initial status on start', () => {
+    const source = new MockNetworkStatus();
+    source.online = false;
+    source.visible = false;
+    const { monitor } = createMonitor(source);
+
+    monitor.start();
+
+    expect(monitor.isOnline).toBe(false);
+    expect(monitor.isVisible).toBe(false);
+  });
+
+  it('should stop listening', () => {
+    const source = new MockNetworkStatus();
+    const { monitor, onOffline } = createMonitor(source);
+    monitor.start();
+
+    monitor.stop();
+    source.setOnline(false);
+
+    expect(onOffline).not.toHaveBeenCalled();
+    expect(source.listenerCount).toBe(0);
+  });
+
+  it('should assume online and visible without a source', () => {
+    const { monitor } = createMonitor();
+    monitor.start();
+
+    expect(monitor.isOnline).toBe(true);
+    expect(monitor.isVisible).toBe(true);
+  });
+});
+
+describe('createBrowserNetworkStatus', () => {
+  it('should listen to window and document events', () => {
+    const source = createBrowserNetworkStatus()!;
+    const listener = vi.fn();
+    const unsubscribe = source.subscribe(listener);
+
+    window.dispatchEvent(new Event('offline'));
+    document.dispatchEvent(new Event('visibilitychange'));
+    unsubscribe();
+    window.dispatchEvent(new Event('online'));
+
+    expect(listener).toHaveBeenCalledTimes(2);
+    expect(source.isVisible()).toBe(true);
+  });
+});
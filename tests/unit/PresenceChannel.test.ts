@@ -0,0 +1,105 @@
+import { describe, it, expect, vi } from 'vitest';
+import { PresenceChannel } from '../../src/client/PresenceChannel.js';
+import type { WsClientMessage } from '../../src/types/api.js';
+
+describe('PresenceChannel', () => {
+  const createPresence = () => {
+    const sent: WsClientMessage[] = [];
+    const presence = new PresenceChannel('doc-1', (message) => {
+      sent.push(message);
+      return true;
+    });
+    return { presence, sent };
+  };
+
+  it('should send enter, update and leave frames', () => {
+    const { presence, sent } = createPresence();
+
+    presence.enter({ name: 'Ada' });
+    presence.update({ name: 'Ada', cursor: 4 });
+    presence.leave();
+
+    expect(sent).toEqual([
+      { type: 'presence', channel: 'doc-1', action: 'enter', data: { name: 'Ada' } },
+      { type: 'presence', channel: 'doc-1', action: 'update', data: { name: 'Ada', cursor: 4 } },
+      { type: 'presence', channel: 'doc-1', action: 'leave' },
+    ]);
+  });
+
+  it('should throw when updating before entering', () => {
+    const { presence } = createPresence();
+
+    expect(() => presence.update({})).toThrow('before entering');
+  });
+
+  it('should ignore leave when not present', () => {
+    const { presence, sent } = createPresence();
+
+    presence.leave();
+
+    expect(sent).toEqual([]);
+  });
+
+  it('should replace members on sync', () => {
+    const { presence } = createPresence();
+    const onSync = vi.fn();
+    presence.on('sync', onSync);
+
+    presence.handleMessage({
+      type: 'presence',
+      channel: 'doc-1',
+      action: 'sync',
+      members: [
+        { clientId: 'a', data: {}, timestamp: 1 },
+        { clientId: 'b', data: {}, timestamp: 2 },
+      ],
+    });
+
+    expect(presence.members().map((member) => member.clientId)).toEqual(['a', 'b']);
+    expect(onSync).toHaveBeenCalledWith(presence.members());
+  });
+
+  it('should track membership changes by client ID', () => {
+    const { presence } = createPresence();
+    const onEnter = vi.fn();
+    const onUpdate = vi.fn();
+    const onLeave = vi.fn();
+    presence.on('enter', onEnter).on('update', onUpdate).on('leave', onLeave);
+
+    presence.handleMessage({ type: 'presence', channel: 'doc-1', action: 'enter', clientId: 'a', data: { name: 'Ada' }, timestamp: 1 });
+    presence.handleMessage({ type: 'presence', channel: 'doc-1', action: 'update', clientId: 'a', data: { name: 'Ada L.' }, timestamp: 2 });
+
+    expect(onEnter).toHaveBeenCalledWith({ clientId: 'a', data: { name: 'Ada' }, timestamp: 1 });
+    expect(onUpdate).toHaveBeenCalledWith({ clientId: 'a', data: { name: 'Ada L.' }, timestamp: 2 });
+    expect(presence.members()).toEqual([{ clientId: 'a', data: { name: 'Ada L.' }, timestamp: 2 }]);
+
+    presence.handleMessage({ type: 'presence', channel: 'doc-1', action: 'leave', clientId: 'a', timestamp: 3 });
+
+    expect(onLeave).toHaveBeenCalledWith(expect.objectContaining({ clientId: 'a' }));
+    expect(presence.members()).toEqual([]);
+  });
+
+  it('should re-enter with the latest data after reconnecting', () => {
+    const { presence, sent } = createPresence();
+    presence.enter({ name: 'Ada' });
+    presence.update({ name: 'Ada', idle: true });
+    sent.length = 0;
+
+    presence.handleConnected();
+
+    expect(sent).toEqual([
+      { type: 'presence', channel: 'doc-1', action: 'enter', data: { name: 'Ada', idle: true } },
+    ]);
+  });
+
+  it('should not re-enter after leaving', () => {
+    const { presence, sent } = createPresence();
+    presence.enter();
+    presence.leave();
+    sent.length = 0;
+
+    presence.handleConnected();
+
+    expect(sent).toEqual([]);
+  });
+});
@@ -0,0 +1,186 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { PublishManager } from '../../src/client/PublishManager.js';
+import { ConnectionError } from '../../src/errors/ConnectionError.js';
+import type { WsClientMessage } from '../../src/types/api.js';
+
+describe('PublishManager', () => {
+  let connected: boolean;
+  let sent: WsClientMessage[];
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    connected = true;
+    sent = [];
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const createManager = (timeout = 1000) => {
+    return new PublishManager({
+      send: (message) => {
+        if (!connected) {
+          return false;
+        }
+        sent.push(message);
+        return true;
+      },
+      timeout,
+    });
+  };
+
+  it('should send a publish frame', () => {
+    const manager = createManager();
+
+    manager.publish('cursors', { x: 1 }, { eventType: 'move' });
+
+    expect(sent[0]).toEqual({
+      type: 'publish',
+      requestId: 'pub-1',
+      channel: 'cursors',
+      eventType: 'move',
+      data: { x: 1 },
+    });
+  });
+
+  it('should resolve when the server confirms', async () => {
+    const manager = createManager();
+
+    const promise = manager.publish('cursors', { x: 1 });
+    manager.handleResult({
+      type: 'published',
+      requestId: 'pub-1',
+      messageId: 'msg-1',
+      channel: 'cursors',
+      clientId: 'client-1',
+      delivered: 3,
+      createdAt: '2024-01-01T00:00:00.000Z',
+    });
+
+    await expect(promise).resolves.toEqual({
+      id: 'msg-1',
+      channelSlug: 'cursors',
+      eventType: 'message',
+      clientId: 'client-1',
+      delivered: 3,
+      createdAt: '2024-01-01T00:00:00.000Z',
+    });
+  });
+
+  it('should reject when the server returns an error', async () => {
+    const manager = createManager();
+
+    const promise = manager.publish('cursors', {});
+    const handled = manager.handleError({
+      type: 'error',
+      requestId: 'pub-1',
+      error: 'Publishing not allowed',
+      code: 'FORBIDDEN',
+    });
+
+    expect(handled).toBe(true);
+    await expect(promise).rejects.toMatchObject({ code: 'FORBIDDEN' });
+  });
+
+  it('should ignore errors for unknown requests', () => {
+    const manager = createManager();
+
+    expect(manager.handleError({ type: 'error', requestId: 'pub-99' })).toBe(false);
+    expect(manager.handleError({ type: 'error', channel: 'cursors' })).toBe(false);
+  });
+
+  it('should reject when not confirmed in time', async () => {
+    const manager = createManager(500);
+
+    const promise = manager.publish('cursors', {});
+    vi.advanceTimersByTime(501);
+
+    await expect(promise).rejects.toMatchObject({ code: 'REQUEST_TIMEOUT' });
+  });
+
+  it('should queue while disconnected and flush in order', () => {
+    const manager = createManager();
+    connected = false;
+
+    manager.publish('cursors', { n: 1 });
+    manager.publish('cursors', { n: 2 });
+    expect(manager.queuedCount).toBe(2);
+    expect(sent).toEqual([]);
+
+    connected = true;
+    manager.flush();
+
+    expect(manager.queuedCount).toBe(0);
+    expect(sent.map((frame) => frame.data)).toEqual([{ n: 1 }, { n: 2 }]);
+  });
+
+  it('should keep the rest queued in order when the socket goes away mid-flush', () => {
+    let sendsLeft = 0;
+    const manager = new PublishManager({
+      send: (message) => {
+        if (sendsLeft === 0) {
+          return false;
+        }
+        sendsLeft--;
+        sent.push(message);
+        return true;
+      },
+      timeout: 1000,
+    });
+
+    manager.publish('cursors', { n: 1 });
+    manager.publish('cursors', { n: 2 });
+    manager.publish('cursors', { n: 3 });
+
+    // The first send succeeds, then the socket drops
+    sendsLeft = 1;
+    manager.flush();
+
+    expect(sent.map((frame) => frame.data)).toEqual([{ n: 1 }]);
+    expect(manager.queuedCount).toBe(2);
+
+    sendsLeft = Infinity;
+    manager.flush();
+
+    expect(sent.map((frame) => frame.data)).toEqual([{ n: 1 }, { n: 2 }, { n: 3 }]);
+    expect(manager.queuedCount).toBe(0);
+  });
+
+  it('should not time out queued publishes', async () => {
+    const manager = createManager(500);
+    connected = false;
+    const onRejected = vi.fn();
+
+    manager.publish('cursors', {}).catch(onRejected);
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(onRejected).not.toHaveBeenCalled();
+  });
+
+  it('should reject in-flight publishes on disconnect but keep queued ones', async () => {
+    const manager = createManager();
+
+    const inFlight = manager.publish('cursors', { n: 1 });
+    connected = false;
+    manager.publish('cursors', { n: 2 });
+
+    manager.handleDisconnect();
+
+    await expect(inFlight).rejects.toBeInstanceOf(ConnectionError);
+    expect(manager.queuedCount).toBe(1);
+  });
+
+  it('should reject everything on clear', async () => {
+    const manager = createManager();
+
+    const inFlight = manager.publish('cursors', {});
+    connected = false;
+    const queued = manager.publish('cursors', {});
+
+    manager.clear(new Error('destroyed'));
+
+    await expect(inFlight).rejects.toThrow('destroyed');
+    await expect(queued).rejects.toThrow('destroyed');
+  });
+});
@@ -2,6 +2,8 @@ import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { PushFloClient } from '../../src/client/PushFloClient.js';
 import { AuthenticationError } from '../../src/errors/AuthenticationError.js';
 import { installMockWebSocket, type MockWebSocket } from '../mocks/MockWebSocket.js';
+import { MockBroadcastChannel, MockLockManager } from '../mocks/MockTabs.js';
+import { DEFAULTS } from '../../src/utils/constants.js';
 
 describe('PushFloClient', () => {
   let mockWs: { instances: MockWebSocket[]; restore: () => void };
@@ -43,6 +45,10 @@ describe('PushFloClient', () => {
     it('should accept mgmt_ keys', () => {
       expect(() => createClient({ publishKey: 'mgmt_valid' })).not.toThrow();
     });
+
+    it('should accept a token provider without a publish key', () => {
+      expect(() => new PushFloClient({ tokenProvider: async () => 'tok_abc' })).not.toThrow();
+    });
   });
 
   describe('connect', () => {
@@ -201,148 +207,1451 @@ describe('PushFloClient', () => {
     });
   });
 
-  describe('unsubscribe', () => {
-    it('should unsubscribe from channel', async () => {
+  describe('per-event handlers', () => {
+    const connectClient = async () => {
       const client = createClient();
-
       const connectPromise = client.connect();
       const ws = mockWs.instances[0]!;
       ws.simulateOpen();
       ws.simulateMessage({ type: 'connected', clientId: 'test' });
       await connectPromise;
+      return { client, ws };
+    };
 
-      client.subscribe('test-channel');
-      client.unsubscribe('test-channel');
+    const sendEvent = (ws: MockWebSocket, messageId: string, eventType: string) => {
+      ws.simulateMessage({ type: 'message', channel: 'orders', messageId, eventType, data: {} });
+    };
 
-      expect(client.isSubscribed('test-channel')).toBe(false);
+    it('should route messages to handlers by event type', async () => {
+      const { client, ws } = await connectClient();
+      const onMessage = vi.fn();
+      const onCreated = vi.fn();
+      const onAny = vi.fn();
+
+      const subscription = client.subscribe('orders', { onMessage });
+      subscription.on('created', onCreated);
+      subscription.on('*', onAny);
+
+      sendEvent(ws, 'msg-1', 'created');
+      sendEvent(ws, 'msg-2', 'cancelled');
+
+      expect(onCreated).toHaveBeenCalledTimes(1);
+      expect(onCreated).toHaveBeenCalledWith(expect.objectContaining({ id: 'msg-1', eventType: 'created' }));
+      expect(onAny.mock.calls.map(([message]) => message.id)).toEqual(['msg-1', 'msg-2']);
+      expect(onMessage).toHaveBeenCalledTimes(2);
     });
 
-    it('should send unsubscribe message when connected', async () => {
+    it('should remove handlers with off and the returned function', async () => {
+      const { client, ws } = await connectClient();
+      const onCreated = vi.fn();
+      const onAny = vi.fn();
+
+      const subscription = client.subscribe('orders');
+      subscription.on('created', onCreated);
+      const removeAny = subscription.on('*', onAny);
+
+      subscription.off('created', onCreated);
+      removeAny();
+      sendEvent(ws, 'msg-1', 'created');
+
+      expect(onCreated).not.toHaveBeenCalled();
+      expect(onAny).not.toHaveBeenCalled();
+    });
+
+    it('should run once handlers for the next matching message only', async () => {
+      const { client, ws } = await connectClient();
+      const onCreated = vi.fn();
+      const onCancelled = vi.fn();
+
+      const subscription = client.subscribe('orders');
+      subscription.once('created', onCreated);
+      const removeCancelled = subscription.once('cancelled', onCancelled);
+      removeCancelled();
+
+      sendEvent(ws, 'msg-1', 'created');
+      sendEvent(ws, 'msg-2', 'created');
+      sendEvent(ws, 'msg-3', 'cancelled');
+
+      expect(onCreated).toHaveBeenCalledTimes(1);
+      expect(onCreated).toHaveBeenCalledWith(expect.objectContaining({ id: 'msg-1' }));
+      expect(onCancelled).not.toHaveBeenCalled();
+    });
+
+    it('should keep handlers of other subscriptions to the channel separate', async () => {
+      const { client, ws } = await connectClient();
+      const first = vi.fn();
+      const second = vi.fn();
+
+      const firstSubscription = client.subscribe('orders');
+      firstSubscription.on('created', first);
+      client.subscribe('orders').on('created', second);
+
+      firstSubscription.unsubscribe();
+      sendEvent(ws, 'msg-1', 'created');
+
+      expect(first).not.toHaveBeenCalled();
+      expect(second).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('private channels', () => {
+    const connectClient = async (client: PushFloClient) => {
+      const connectPromise = client.connect();
+      const ws = mockWs.instances[mockWs.instances.length - 1]!;
+      ws.simulateOpen();
+      ws.simulateMessage({ type: 'connected', clientId: 'client-1' });
+      await connectPromise;
+      ws.clearSentMessages();
+      return ws;
+    };
+
+    it('should authorize before subscribing', async () => {
+      const authorizeChannel = vi.fn().mockResolvedValue('sig_abc');
+      const client = createClient({ authorizeChannel });
+      const ws = await connectClient(client);
+
+      client.subscribe('secret-channel', { isPrivate: true });
+      expect(ws.getSentMessages()).toEqual([]);
+
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(authorizeChannel).toHaveBeenCalledWith('secret-channel', 'client-1');
+      expect(ws.getSentMessages()[0]).toEqual({
+        type: 'subscribe',
+        channel: 'secret-channel',
+        auth: 'sig_abc',
+      });
+    });
+
+    it('should not authorize public channels', async () => {
+      const authorizeChannel = vi.fn().mockResolvedValue('sig_abc');
+      const client = createClient({ authorizeChannel });
+      const ws = await connectClient(client);
+
+      client.subscribe('public-channel');
+
+      expect(authorizeChannel).not.toHaveBeenCalled();
+      expect(ws.getSentMessages()[0]).toEqual({ type: 'subscribe', channel: 'public-channel' });
+    });
+
+    it('should report rejected authorization as AuthenticationError', async () => {
+      const authorizeChannel = vi.fn().mockRejectedValue(new Error('not a member'));
+      const client = createClient({ authorizeChannel });
+      const ws = await connectClient(client);
+      const onError = vi.fn();
+
+      client.subscribe('secret-channel', { isPrivate: true, onError });
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(onError).toHaveBeenCalledWith(expect.any(AuthenticationError));
+      expect(onError.mock.calls[0]![0].code).toBe('CHANNEL_AUTH_FAILED');
+      expect(ws.getSentMessages()).toEqual([]);
+    });
+
+    it('should report a missing authorizer as AuthenticationError', async () => {
       const client = createClient();
+      await connectClient(client);
+      const onError = vi.fn();
+
+      client.subscribe('secret-channel', { isPrivate: true, onError });
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(onError).toHaveBeenCalledWith(expect.any(AuthenticationError));
+    });
+
+    it('should map server authorization errors to AuthenticationError', async () => {
+      const client = createClient({ authorizeChannel: vi.fn().mockResolvedValue('sig_bad') });
+      const ws = await connectClient(client);
+      const onError = vi.fn();
+
+      client.subscribe('secret-channel', { isPrivate: true, onError });
+      await vi.advanceTimersByTimeAsync(0);
+      ws.simulateMessage({
+        type: 'error',
+        channel: 'secret-channel',
+        error: 'Invalid signature',
+        code: 'FORBIDDEN',
+      });
+
+      expect(onError).toHaveBeenCalledWith(expect.any(AuthenticationError));
+    });
+
+    it('should re-authorize with the new client ID after reconnect', async () => {
+      const authorizeChannel = vi.fn().mockResolvedValue('sig');
+      const client = createClient({ authorizeChannel });
+      await connectClient(client);
+      client.subscribe('secret-channel', { isPrivate: true });
+      await vi.advanceTimersByTimeAsync(0);
+
+      client.disconnect();
+      const connectPromise = client.connect();
+      const ws2 = mockWs.instances[1]!;
+      ws2.simulateOpen();
+      ws2.simulateMessage({ type: 'connected', clientId: 'client-2' });
+      await connectPromise;
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(authorizeChannel).toHaveBeenLastCalledWith('secret-channel', 'client-2');
+      expect(ws2.getSentMessages()).toContainEqual({
+        type: 'subscribe',
+        channel: 'secret-channel',
+        auth: 'sig',
+      });
+    });
+  });
 
+  describe('subscription confirmation', () => {
+    const connectClient = async (options = {}) => {
+      const client = createClient(options);
       const connectPromise = client.connect();
       const ws = mockWs.instances[0]!;
       ws.simulateOpen();
       ws.simulateMessage({ type: 'connected', clientId: 'test' });
       await connectPromise;
+      return { client, ws };
+    };
 
-      client.subscribe('test-channel');
-      ws.clearSentMessages();
+    it('should resolve ready when the server confirms', async () => {
+      const { client, ws } = await connectClient();
+      const onResolved = vi.fn();
 
-      client.unsubscribe('test-channel');
+      const subscription = client.subscribe('orders');
+      subscription.ready.then(onResolved);
+      await vi.advanceTimersByTimeAsync(0);
+      expect(onResolved).not.toHaveBeenCalled();
 
-      expect(ws.getSentMessages()[0]).toEqual({
-        type: 'unsubscribe',
-        channel: 'test-channel',
+      ws.simulateMessage({ type: 'subscribed', channel: 'orders' });
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(onResolved).toHaveBeenCalled();
+    });
+
+    it('should resolve ready immediately for an already confirmed channel', async () => {
+      const { client, ws } = await connectClient();
+      client.subscribe('orders');
+      ws.simulateMessage({ type: 'subscribed', channel: 'orders' });
+
+      await expect(client.subscribe('orders').ready).resolves.toBeUndefined();
+    });
+
+    it('should keep a listener widening the event types pending until the re-sent subscribe is confirmed', async () => {
+      const { client, ws } = await connectClient();
+      const onFirstSubscribed = vi.fn();
+      client.subscribe('orders', { eventTypes: ['created'], onSubscribed: onFirstSubscribed });
+      ws.simulateMessage({ type: 'subscribed', channel: 'orders' });
+
+      const onSubscribed = vi.fn();
+      const subscription = client.subscribe('orders', { eventTypes: ['deleted'], onSubscribed });
+      const onResolved = vi.fn();
+      subscription.ready.then(onResolved);
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(ws.getSentMessages()).toContainEqual({
+        type: 'subscribe',
+        channel: 'orders',
+        eventTypes: ['created', 'deleted'],
       });
+      expect(onResolved).not.toHaveBeenCalled();
+      expect(onSubscribed).not.toHaveBeenCalled();
+
+      ws.simulateMessage({ type: 'subscribed', channel: 'orders' });
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(onResolved).toHaveBeenCalled();
+      expect(onSubscribed).toHaveBeenCalledTimes(1);
+      expect(onFirstSubscribed).toHaveBeenCalledTimes(1);
     });
 
-    it('should use subscription.unsubscribe()', async () => {
-      const client = createClient();
+    it('should reject ready on a channel error', async () => {
+      const { client, ws } = await connectClient();
+      const subscription = client.subscribe('orders');
+
+      ws.simulateMessage({ type: 'error', channel: 'orders', code: 'FORBIDDEN', error: 'Denied' });
+
+      await expect(subscription.ready).rejects.toBeInstanceOf(AuthenticationError);
+    });
+
+    it('should reject ready after subscribeTimeout', async () => {
+      const { client } = await connectClient({ subscribeTimeout: 5000 });
+      const onError = vi.fn();
+      const subscription = client.subscribe('orders', { onError });
+      const assertion = expect(subscription.ready).rejects.toMatchObject({ code: 'REQUEST_TIMEOUT' });
+
+      await vi.advanceTimersByTimeAsync(5000);
 
+      await assertion;
+      expect(onError).toHaveBeenCalled();
+    });
+
+    it('should reject ready after subscribeTimeout while disconnected', async () => {
+      const client = createClient({ subscribeTimeout: 5000 });
+      const subscription = client.subscribe('orders');
+      const assertion = expect(subscription.ready).rejects.toMatchObject({ code: 'REQUEST_TIMEOUT' });
+
+      await vi.advanceTimersByTimeAsync(5000);
+
+      await assertion;
+    });
+
+    it('should count the timeout from the subscribe call when connecting later', async () => {
+      const client = createClient({ subscribeTimeout: 5000 });
+      const subscription = client.subscribe('orders');
+      const onSettled = vi.fn();
+      subscription.ready.then(onSettled, onSettled);
+
+      await vi.advanceTimersByTimeAsync(3000);
       const connectPromise = client.connect();
       const ws = mockWs.instances[0]!;
       ws.simulateOpen();
       ws.simulateMessage({ type: 'connected', clientId: 'test' });
       await connectPromise;
+      await vi.advanceTimersByTimeAsync(2000);
+
+      expect(onSettled).toHaveBeenCalledWith(expect.objectContaining({ code: 'REQUEST_TIMEOUT' }));
+    });
+
+    it('should reject ready when unsubscribed before confirmation', async () => {
+      const { client } = await connectClient();
+      const subscription = client.subscribe('orders');
 
-      const subscription = client.subscribe('test-channel');
       subscription.unsubscribe();
 
-      expect(client.isSubscribed('test-channel')).toBe(false);
+      await expect(subscription.ready).rejects.toMatchObject({ code: 'INVALID_STATE' });
+    });
+
+    it('should resolve subscribeAsync once confirmed', async () => {
+      const { client, ws } = await connectClient();
+
+      const promise = client.subscribeAsync('orders');
+      ws.simulateMessage({ type: 'subscribed', channel: 'orders' });
+
+      const subscription = await promise;
+      expect(subscription.channel).toBe('orders');
+      expect(client.isSubscribed('orders')).toBe(true);
+    });
+
+    it('should remove the listener when subscribeAsync fails', async () => {
+      const { client, ws } = await connectClient();
+
+      const promise = client.subscribeAsync('orders');
+      ws.simulateMessage({ type: 'error', channel: 'orders', code: 'NOT_FOUND', error: 'No such channel' });
+
+      await expect(promise).rejects.toMatchObject({ code: 'NOT_FOUND' });
+      expect(client.isSubscribed('orders')).toBe(false);
     });
   });
 
-  describe('onConnectionChange', () => {
-    it('should notify on connection state changes', async () => {
+  describe('deduplication', () => {
+    it('should drop duplicate messages and count them', async () => {
       const client = createClient();
-      const listener = vi.fn();
-      client.onConnectionChange(listener);
+      const connectPromise = client.connect();
+      const ws = mockWs.instances[0]!;
+      ws.simulateOpen();
+      ws.simulateMessage({ type: 'connected', clientId: 'test' });
+      await connectPromise;
+
+      const onMessage = vi.fn();
+      const onGlobalMessage = vi.fn();
+      client.subscribe('orders', { onMessage });
+      client.on('message', onGlobalMessage);
+
+      ws.simulateMessage({ type: 'message', channel: 'orders', messageId: 'msg-1', data: {} });
+      ws.simulateMessage({ type: 'message', channel: 'orders', messageId: 'msg-1', data: {} });
+      ws.simulateMessage({ type: 'message', channel: 'orders', messageId: 'msg-2', data: {} });
 
+      expect(onMessage).toHaveBeenCalledTimes(2);
+      expect(onGlobalMessage).toHaveBeenCalledTimes(2);
+      expect(client.getStats()).toEqual({ messagesReceived: 2, duplicatesDropped: 1 });
+    });
+
+    it('should deliver duplicates when disabled', async () => {
+      const client = createClient({ dedupWindowSize: 0 });
       const connectPromise = client.connect();
-      expect(listener).toHaveBeenCalledWith('connecting');
+      const ws = mockWs.instances[0]!;
+      ws.simulateOpen();
+      ws.simulateMessage({ type: 'connected', clientId: 'test' });
+      await connectPromise;
+
+      const onMessage = vi.fn();
+      client.subscribe('orders', { onMessage });
 
+      ws.simulateMessage({ type: 'message', channel: 'orders', messageId: 'msg-1', data: {} });
+      ws.simulateMessage({ type: 'message', channel: 'orders', messageId: 'msg-1', data: {} });
+
+      expect(onMessage).toHaveBeenCalledTimes(2);
+      expect(client.getStats().duplicatesDropped).toBe(0);
+    });
+
+    it('should handle redeliveries of messages whose handler failed on acked channels', async () => {
+      const client = createClient();
+      const connectPromise = client.connect();
       const ws = mockWs.instances[0]!;
       ws.simulateOpen();
       ws.simulateMessage({ type: 'connected', clientId: 'test' });
       await connectPromise;
 
-      expect(listener).toHaveBeenCalledWith('connected');
+      const onMessage = vi.fn()
+        .mockImplementationOnce(() => {
+          throw new Error('Handler failed');
+        });
+      client.subscribe('orders', { ack: 'auto', onMessage, onError: vi.fn() });
+      ws.simulateMessage({ type: 'subscribed', channel: 'orders' });
+      ws.clearSentMessages();
+
+      ws.simulateMessage({ type: 'message', channel: 'orders', messageId: 'msg-1', data: {} });
+      await vi.advanceTimersByTimeAsync(0);
+      expect(ws.getSentMessages()).toEqual([]);
+
+      // The server redelivers the unacked message
+      ws.simulateMessage({ type: 'message', channel: 'orders', messageId: 'msg-1', data: {} });
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(onMessage).toHaveBeenCalledTimes(2);
+      expect(ws.getSentMessages()).toEqual([{ type: 'ack', channel: 'orders', messageId: 'msg-1' }]);
+      expect(client.getStats().duplicatesDropped).toBe(0);
     });
 
-    it('should allow unsubscribing', async () => {
+    it('should re-ack redeliveries of acked messages without handling them again', async () => {
       const client = createClient();
-      const listener = vi.fn();
-      const unsubscribe = client.onConnectionChange(listener);
+      const connectPromise = client.connect();
+      const ws = mockWs.instances[0]!;
+      ws.simulateOpen();
+      ws.simulateMessage({ type: 'connected', clientId: 'test' });
+      await connectPromise;
 
-      unsubscribe();
+      const onMessage = vi.fn();
+      client.subscribe('orders', { ack: 'auto', onMessage });
+      ws.simulateMessage({ type: 'subscribed', channel: 'orders' });
+      ws.clearSentMessages();
 
-      client.connect();
-      expect(listener).not.toHaveBeenCalled();
+      ws.simulateMessage({ type: 'message', channel: 'orders', messageId: 'msg-1', data: {} });
+      await vi.advanceTimersByTimeAsync(0);
+      ws.simulateMessage({ type: 'message', channel: 'orders', messageId: 'msg-1', data: {} });
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(onMessage).toHaveBeenCalledTimes(1);
+      expect(ws.getSentMessages()).toEqual([
+        { type: 'ack', channel: 'orders', messageId: 'msg-1' },
+        { type: 'ack', channel: 'orders', messageId: 'msg-1' },
+      ]);
+      expect(client.getStats().duplicatesDropped).toBe(1);
     });
   });
 
-  describe('getSubscribedChannels', () => {
-    it('should return list of subscribed channels', () => {
+  describe('sequence gaps', () => {
+    it('should expose sequence numbers and report gaps', async () => {
       const client = createClient();
+      const connectPromise = client.connect();
+      const ws = mockWs.instances[0]!;
+      ws.simulateOpen();
+      ws.simulateMessage({ type: 'connected', clientId: 'test' });
+      await connectPromise;
 
-      client.subscribe('channel-1');
-      client.subscribe('channel-2');
+      const onMessage = vi.fn();
+      const onGap = vi.fn();
+      const onGlobalGap = vi.fn();
+      client.subscribe('ledger', { onMessage, onGap });
+      client.on('gap', onGlobalGap);
 
-      const channels = client.getSubscribedChannels();
+      ws.simulateMessage({ type: 'message', channel: 'ledger', messageId: 'msg-1', sequence: 1, data: {} });
+      ws.simulateMessage({ type: 'message', channel: 'ledger', messageId: 'msg-4', sequence: 4, data: {} });
 
-      expect(channels).toContain('channel-1');
-      expect(channels).toContain('channel-2');
+      expect(onMessage.mock.calls.map(([message]) => message.sequence)).toEqual([1, 4]);
+      expect(onGap).toHaveBeenCalledWith({ channel: 'ledger', from: 2, to: 3 });
+      expect(onGlobalGap).toHaveBeenCalledWith({ channel: 'ledger', from: 2, to: 3 });
+    });
+
+    it('should reorder within reorderWindow', async () => {
+      const client = createClient({ reorderWindow: 500 });
+      const connectPromise = client.connect();
+      const ws = mockWs.instances[0]!;
+      ws.simulateOpen();
+      ws.simulateMessage({ type: 'connected', clientId: 'test' });
+      await connectPromise;
+
+      const onMessage = vi.fn();
+      const onGap = vi.fn();
+      client.subscribe('ledger', { onMessage, onGap });
+
+      ws.simulateMessage({ type: 'message', channel: 'ledger', messageId: 'msg-1', sequence: 1, data: {} });
+      ws.simulateMessage({ type: 'message', channel: 'ledger', messageId: 'msg-3', sequence: 3, data: {} });
+      ws.simulateMessage({ type: 'message', channel: 'ledger', messageId: 'msg-2', sequence: 2, data: {} });
+
+      expect(onMessage.mock.calls.map(([message]) => message.sequence)).toEqual([1, 2, 3]);
+      expect(onGap).not.toHaveBeenCalled();
     });
   });
 
-  describe('destroy', () => {
-    it('should clean up all resources', async () => {
-      const client = createClient();
-      const listener = vi.fn();
-      client.onConnectionChange(listener);
+  describe('channel schemas', () => {
+    type Channels = {
+      orders: { created: { id: string; total: number }; cancelled: { id: string } };
+    };
+
+    const orderCreated = {
+      parse: (input: unknown) => {
+        const order = input as { id?: unknown; total?: unknown };
+        if (typeof order.id !== 'string' || typeof order.total !== 'number') {
+          throw new Error('malformed order');
+        }
+        return { id: order.id, total: order.total };
+      },
+    };
+
+    it('should validate received content before onMessage', async () => {
+      const client = new PushFloClient<Channels>({
+        publishKey: 'pub_test123',
+        validators: { orders: { created: orderCreated } },
+      });
+      const connectPromise = client.connect();
+      const ws = mockWs.instances[0]!;
+      ws.simulateOpen();
+      ws.simulateMessage({ type: 'connected', clientId: 'test' });
+      await connectPromise;
+
+      const totals: number[] = [];
+      const onError = vi.fn();
+      client.subscribe('orders', {
+        onMessage: (message) => {
+          if (message.eventType === 'created') {
+            totals.push(message.content.total);
+          }
+        },
+        onError,
+      });
+
+      ws.simulateMessage({ type: 'message', channel: 'orders', messageId: 'msg-1', eventType: 'created', data: { id: 'o-1', total: 5, extra: true } });
+      ws.simulateMessage({ type: 'message', channel: 'orders', messageId: 'msg-2', eventType: 'created', data: { id: 'o-2' } });
+      ws.simulateMessage({ type: 'message', channel: 'orders', messageId: 'msg-3', eventType: 'cancelled', data: { id: 'o-1' } });
 
+      expect(totals).toEqual([5]);
+      expect(onError).toHaveBeenCalledTimes(1);
+      expect(onError.mock.calls[0]![0]).toMatchObject({ name: 'ValidationError', field: 'content' });
+    });
+
+    it('should type per-event handlers by event type', async () => {
+      const client = new PushFloClient<Channels>({ publishKey: 'pub_test123' });
       const connectPromise = client.connect();
       const ws = mockWs.instances[0]!;
       ws.simulateOpen();
       ws.simulateMessage({ type: 'connected', clientId: 'test' });
       await connectPromise;
 
-      client.subscribe('test-channel');
-      client.destroy();
+      const totals: number[] = [];
+      const eventTypes: string[] = [];
+      const subscription = client.subscribe('orders');
+      subscription.on('created', (message) => totals.push(message.content.total));
+      subscription.on('*', (message) => eventTypes.push(message.eventType));
 
-      expect(client.getSubscribedChannels()).toEqual([]);
+      ws.simulateMessage({ type: 'message', channel: 'orders', messageId: 'msg-1', eventType: 'created', data: { id: 'o-1', total: 5 } });
+      ws.simulateMessage({ type: 'message', channel: 'orders', messageId: 'msg-2', eventType: 'cancelled', data: { id: 'o-1' } });
+
+      expect(totals).toEqual([5]);
+      expect(eventTypes).toEqual(['created', 'cancelled']);
+    });
+
+    it('should reject publishes with invalid content', async () => {
+      const client = new PushFloClient<Channels>({
+        publishKey: 'pub_test123',
+        validators: { orders: { created: orderCreated } },
+      });
+      const connectPromise = client.connect();
+      const ws = mockWs.instances[0]!;
+      ws.simulateOpen();
+      ws.simulateMessage({ type: 'connected', clientId: 'test' });
+      await connectPromise;
+      ws.clearSentMessages();
+
+      const invalid = { id: 'o-1' } as { id: string; total: number };
+      await expect(client.publish('orders', invalid, { eventType: 'created' }))
+        .rejects.toMatchObject({ name: 'ValidationError' });
+      expect(ws.getSentMessages()).toHaveLength(0);
     });
   });
 
-  describe('re-subscription on reconnect', () => {
-    it('should re-subscribe to channels on reconnect', async () => {
+  describe('acknowledgements', () => {
+    it('should request acks and send ack frames in manual mode', async () => {
       const client = createClient();
-
       const connectPromise = client.connect();
       const ws = mockWs.instances[0]!;
       ws.simulateOpen();
       ws.simulateMessage({ type: 'connected', clientId: 'test' });
       await connectPromise;
-
-      client.subscribe('test-channel');
       ws.clearSentMessages();
 
-      // Disconnect
-      client.disconnect();
+      const onMessage = vi.fn();
+      client.subscribe('billing', { ack: 'manual', onMessage });
+      expect(ws.getSentMessages()[0]).toEqual({ type: 'subscribe', channel: 'billing', ack: true });
 
-      // Reconnect
-      const reconnectPromise = client.connect();
-      const ws2 = mockWs.instances[1]!;
-      ws2.simulateOpen();
-      ws2.simulateMessage({ type: 'connected', clientId: 'test2' });
-      await reconnectPromise;
+      ws.simulateMessage({
+        type: 'message',
+        channel: 'billing',
+        messageId: 'msg-1',
+        data: { amount: 10 },
+      });
+      onMessage.mock.calls[0]![0].ack();
 
-      // Should have re-subscribed
-      expect(ws2.getSentMessages()).toContainEqual({
-        type: 'subscribe',
-        channel: 'test-channel',
+      expect(ws.getSentMessages()).toContainEqual({ type: 'ack', channel: 'billing', messageId: 'msg-1' });
+    });
+  });
+
+  describe('publish', () => {
+    it('should publish over the socket and resolve on confirmation', async () => {
+      const client = createClient();
+      const connectPromise = client.connect();
+      const ws = mockWs.instances[0]!;
+      ws.simulateOpen();
+      ws.simulateMessage({ type: 'connected', clientId: 'test' });
+      await connectPromise;
+      ws.clearSentMessages();
+
+      const promise = client.publish('cursors', { x: 10 }, { eventType: 'move' });
+      const frame = ws.getSentMessages()[0]!;
+      expect(frame).toMatchObject({ type: 'publish', channel: 'cursors', eventType: 'move', data: { x: 10 } });
+
+      ws.simulateMessage({
+        type: 'published',
+        requestId: frame.requestId as string,
+        messageId: 'msg-1',
+        channel: 'cursors',
+        delivered: 2,
       });
+
+      await expect(promise).resolves.toMatchObject({ id: 'msg-1', delivered: 2 });
+    });
+
+    it('should send publishes queued while disconnected once connected', async () => {
+      const client = createClient();
+
+      client.publish('cursors', { x: 1 });
+
+      const connectPromise = client.connect();
+      const ws = mockWs.instances[0]!;
+      ws.simulateOpen();
+      ws.simulateMessage({ type: 'connected', clientId: 'test' });
+      await connectPromise;
+
+      expect(ws.getSentMessages()).toContainEqual(
+        expect.objectContaining({ type: 'publish', channel: 'cursors', data: { x: 1 } })
+      );
+    });
+
+    it('should reject publish errors without affecting subscriptions', async () => {
+      const client = createClient();
+      const onError = vi.fn();
+      const connectPromise = client.connect();
+      const ws = mockWs.instances[0]!;
+      ws.simulateOpen();
+      ws.simulateMessage({ type: 'connected', clientId: 'test' });
+      await connectPromise;
+      client.subscribe('cursors', { onError });
+      ws.clearSentMessages();
+
+      const promise = client.publish('cursors', {});
+      const frame = ws.getSentMessages()[0]!;
+      ws.simulateMessage({
+        type: 'error',
+        requestId: frame.requestId as string,
+        channel: 'cursors',
+        error: 'Rate limited',
+        code: 'RATE_LIMITED',
+      });
+
+      await expect(promise).rejects.toMatchObject({ code: 'RATE_LIMITED' });
+      expect(onError).not.toHaveBeenCalled();
+    });
+
+    it('should reject invalid channel slugs', async () => {
+      const client = createClient();
+
+      await expect(client.publish('Bad Channel', {})).rejects.toThrow('Invalid channel slug');
+    });
+
+    it('should reject queued publishes once the connection fails', async () => {
+      const client = createClient({ reconnectDelay: 100, maxReconnectAttempts: 1 });
+      client.on('error', vi.fn());
+      const connectPromise = client.connect();
+      const ws = mockWs.instances[0]!;
+      ws.simulateOpen();
+      ws.simulateMessage({ type: 'connected', clientId: 'test' });
+      await connectPromise;
+
+      ws.simulateClose(1006);
+      const promise = client.publish('cursors', { x: 1 });
+      const assertion = expect(promise).rejects.toMatchObject({ code: 'CONNECTION_FAILED', retryable: false });
+
+      await vi.advanceTimersByTimeAsync(200);
+      mockWs.instances[1]!.simulateClose(1006);
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(client.connectionState).toBe('failed');
+      await assertion;
+    });
+
+    it('should reject queued publishes on disconnect()', async () => {
+      const client = createClient();
+      const promise = client.publish('cursors', { x: 1 });
+
+      client.disconnect();
+
+      await expect(promise).rejects.toMatchObject({ code: 'CONNECTION_CLOSED' });
+    });
+  });
+
+  describe('shared connection', () => {
+    let locks: MockLockManager;
+
+    beforeEach(() => {
+      locks = new MockLockManager();
+    });
+
+    afterEach(() => {
+      MockBroadcastChannel.reset();
+    });
+
+    const createTab = () => createClient({
+      shared: { name: 'test', locks, BroadcastChannel: MockBroadcastChannel },
+      reconnectDelay: 100,
+    });
+
+    const flush = () => vi.advanceTimersByTimeAsync(0);
+
+    /** Open two tabs; the first becomes the leader and owns the only socket */
+    const openTabs = async () => {
+      const leader = createTab();
+      const follower = createTab();
+      await flush();
+
+      const leaderConnect = leader.connect();
+      const followerConnect = follower.connect();
+      await flush();
+
+      const ws = mockWs.instances[0]!;
+      ws.simulateOpen();
+      ws.simulateMessage({ type: 'connected', clientId: 'shared-client' });
+      await flush();
+      await Promise.all([leaderConnect, followerConnect]);
+
+      return { leader, follower, ws };
+    };
+
+    it('should connect all tabs over one socket', async () => {
+      const { leader, follower } = await openTabs();
+
+      expect(mockWs.instances).toHaveLength(1);
+      expect(leader.connectionState).toBe('connected');
+      expect(follower.connectionState).toBe('connected');
+      expect(follower.clientId).toBe('shared-client');
+    });
+
+    it('should fan messages out to the tabs subscribed to the channel', async () => {
+      const { leader, follower, ws } = await openTabs();
+      const onLeaderMessage = vi.fn();
+      const onFollowerMessage = vi.fn();
+      leader.subscribe('chat', { onMessage: onLeaderMessage });
+      follower.subscribe('orders', { onMessage: onFollowerMessage });
+      await flush();
+
+      expect(ws.getSentMessages()).toContainEqual({ type: 'subscribe', channel: 'orders' });
+
+      ws.simulateMessage({ type: 'message', channel: 'orders', messageId: 'msg-1', data: { id: 1 } });
+      await flush();
+
+      expect(onFollowerMessage).toHaveBeenCalledWith(expect.objectContaining({ id: 'msg-1', content: { id: 1 } }));
+      expect(onLeaderMessage).not.toHaveBeenCalled();
+    });
+
+    it('should keep a channel subscribed until no tab listens', async () => {
+      const { leader, follower, ws } = await openTabs();
+      leader.subscribe('orders');
+      follower.subscribe('orders');
+      await flush();
+      ws.clearSentMessages();
+
+      follower.unsubscribe('orders');
+      await flush();
+      expect(ws.getSentMessages()).toEqual([]);
+
+      leader.unsubscribe('orders');
+      await flush();
+      expect(ws.getSentMessages()).toEqual([{ type: 'unsubscribe', channel: 'orders' }]);
+    });
+
+    it('should track batched subscribes per tab', async () => {
+      const { leader, follower, ws } = await openTabs();
+      leader.subscribeMany(['orders', 'chat']);
+      follower.subscribe('orders');
+      await flush();
+      ws.clearSentMessages();
+
+      leader.unsubscribeMany(['orders', 'chat']);
+      await flush();
+      expect(ws.getSentMessages()).toEqual([{ type: 'unsubscribe', channels: ['chat'] }]);
+    });
+
+    it('should drop event type filters on channels other tabs share', async () => {
+      const { leader, follower, ws } = await openTabs();
+      leader.subscribe('orders', { eventTypes: ['created'] });
+      await flush();
+      follower.subscribe('orders', { eventTypes: ['deleted'] });
+      await flush();
+
+      expect(ws.getSentMessages().filter((frame) => frame.type === 'subscribe')).toEqual([
+        { type: 'subscribe', channel: 'orders', eventTypes: ['created'] },
+        { type: 'subscribe', channel: 'orders' },
+      ]);
+    });
+
+    it('should route publish confirmations back to the publishing tab', async () => {
+      const { leader, follower, ws } = await openTabs();
+      ws.clearSentMessages();
+
+      const leaderPublish = leader.publish('orders', { from: 'leader' });
+      const followerPublish = follower.publish('orders', { from: 'follower' });
+      await flush();
+
+      const frames = ws.getSentMessages();
+      expect(new Set(frames.map((frame) => frame.requestId)).size).toBe(2);
+      frames.forEach((frame, index) => {
+        ws.simulateMessage({ type: 'published', requestId: frame.requestId as string, messageId: `msg-${index}` });
+      });
+      await flush();
+
+      const fromFollower = frames.findIndex((frame) => (frame.data as { from: string }).from === 'follower');
+      await expect(followerPublish).resolves.toMatchObject({ id: `msg-${fromFollower}` });
+      await expect(leaderPublish).resolves.toMatchObject({ id: `msg-${1 - fromFollower}` });
+    });
+
+    it('should route each pong to the tab that sent the ping', async () => {
+      const { leader, follower, ws } = await openTabs();
+      ws.clearSentMessages();
+
+      // Both tabs ping on the same schedule over the one socket
+      await vi.advanceTimersByTimeAsync(DEFAULTS.HEARTBEAT_INTERVAL);
+      expect(ws.getSentMessages().filter((frame) => frame.type === 'ping')).toHaveLength(2);
+
+      ws.simulateMessage({ type: 'pong' });
+      await flush();
+      expect(leader.getLatency().samples + follower.getLatency().samples).toBe(1);
+
+      ws.simulateMessage({ type: 'pong' });
+      await flush();
+      expect(leader.getLatency().samples).toBe(1);
+      expect(follower.getLatency().samples).toBe(1);
+    });
+
+    it('should release the channels of a tab that goes away without leaving', async () => {
+      const { ws } = await openTabs();
+
+      // A tab speaking the protocol directly, so it can vanish without sending 'leave'
+      const tabId = 'crashed-tab';
+      let crash!: () => void;
+      void locks.request(`test:tab:${tabId}`, {}, () => new Promise<void>((resolve) => {
+        crash = resolve;
+      }));
+      const tab = new MockBroadcastChannel('test');
+      tab.postMessage({ type: 'open', tabId });
+      tab.postMessage({ type: 'send', tabId, data: JSON.stringify({ type: 'subscribe', channel: 'orders' }) });
+      await flush();
+      expect(ws.getSentMessages()).toContainEqual({ type: 'subscribe', channel: 'orders' });
+      ws.clearSentMessages();
+
+      tab.close();
+      crash();
+      await flush();
+
+      expect(ws.getSentMessages()).toEqual([{ type: 'unsubscribe', channel: 'orders' }]);
+    });
+
+    it('should fail over to a new leader when the leader tab closes', async () => {
+      const { leader, follower } = await openTabs();
+      const onMessage = vi.fn();
+      follower.subscribe('orders', { onMessage });
+      await flush();
+
+      leader.destroy();
+      await flush();
+      // The leader closed with 'going away', so the follower reconnects right away
+      expect(follower.connectionState).toBe('connecting');
+
+      // The follower takes the lock and reconnects through its own socket
+      await vi.advanceTimersByTimeAsync(500);
+      const ws = mockWs.instances[1]!;
+      ws.simulateOpen();
+      ws.simulateMessage({ type: 'connected', clientId: 'new-client' });
+      await flush();
+
+      expect(follower.connectionState).toBe('connected');
+      expect(ws.getSentMessages()).toContainEqual({ type: 'subscribe', channel: 'orders' });
+
+      ws.simulateMessage({ type: 'message', channel: 'orders', messageId: 'msg-1', data: {} });
+      await flush();
+      expect(onMessage).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('presence', () => {
+    it('should enter once connected and route presence events', async () => {
+      const client = createClient();
+      const presence = client.presence('doc-1');
+      const onEnter = vi.fn();
+      presence.on('enter', onEnter);
+
+      presence.enter({ name: 'Ada' });
+
+      const connectPromise = client.connect();
+      const ws = mockWs.instances[0]!;
+      ws.simulateOpen();
+      ws.simulateMessage({ type: 'connected', clientId: 'client-1' });
+      await connectPromise;
+
+      expect(ws.getSentMessages()).toContainEqual({
+        type: 'presence',
+        channel: 'doc-1',
+        action: 'enter',
+        data: { name: 'Ada' },
+      });
+
+      ws.simulateMessage({ type: 'presence', channel: 'doc-1', action: 'enter', clientId: 'client-1', data: { name: 'Ada' } });
+
+      expect(onEnter).toHaveBeenCalledWith(expect.objectContaining({ clientId: 'client-1' }));
+      expect(presence.members()).toHaveLength(1);
+    });
+
+    it('should return the same handle for a channel', () => {
+      const client = createClient();
+
+      expect(client.presence('doc-1')).toBe(client.presence('doc-1'));
+    });
+
+    it('should validate the channel slug', () => {
+      const client = createClient();
+
+      expect(() => client.presence('Doc 1')).toThrow('Invalid channel slug');
+    });
+  });
+
+  describe('unsubscribe', () => {
+    it('should unsubscribe from channel', async () => {
+      const client = createClient();
+
+      const connectPromise = client.connect();
+      const ws = mockWs.instances[0]!;
+      ws.simulateOpen();
+      ws.simulateMessage({ type: 'connected', clientId: 'test' });
+      await connectPromise;
+
+      client.subscribe('test-channel');
+      client.unsubscribe('test-channel');
+
+      expect(client.isSubscribed('test-channel')).toBe(false);
+    });
+
+    it('should send unsubscribe message when connected', async () => {
+      const client = createClient();
+
+      const connectPromise = client.connect();
+      const ws = mockWs.instances[0]!;
+      ws.simulateOpen();
+      ws.simulateMessage({ type: 'connected', clientId: 'test' });
+      await connectPromise;
+
+      client.subscribe('test-channel');
+      ws.clearSentMessages();
+
+      client.unsubscribe('test-channel');
+
+      expect(ws.getSentMessages()[0]).toEqual({
+        type: 'unsubscribe',
+        channel: 'test-channel',
+      });
+    });
+
+    it('should keep the channel until the last subscription leaves', async () => {
+      const client = createClient();
+
+      const connectPromise = client.connect();
+      const ws = mockWs.instances[0]!;
+      ws.simulateOpen();
+      ws.simulateMessage({ type: 'connected', clientId: 'test' });
+      await connectPromise;
+      ws.clearSentMessages();
+
+      const first = vi.fn();
+      const second = vi.fn();
+      const subscriptionA = client.subscribe('orders', { onMessage: first });
+      const subscriptionB = client.subscribe('orders', { onMessage: second });
+
+      // Only one subscribe frame for the shared channel
+      expect(ws.getSentMessages()).toEqual([{ type: 'subscribe', channel: 'orders' }]);
+
+      subscriptionA.unsubscribe();
+      expect(client.isSubscribed('orders')).toBe(true);
+      expect(ws.getSentMessages()).not.toContainEqual({ type: 'unsubscribe', channel: 'orders' });
+
+      ws.simulateMessage({ type: 'message', channel: 'orders', messageId: 'msg-1', data: {} });
+      expect(first).not.toHaveBeenCalled();
+      expect(second).toHaveBeenCalled();
+
+      subscriptionB.unsubscribe();
+      expect(client.isSubscribed('orders')).toBe(false);
+      expect(ws.getSentMessages()).toContainEqual({ type: 'unsubscribe', channel: 'orders' });
+    });
+
+    it('should re-send subscribe when a later listener needs acks', async () => {
+      const client = createClient();
+
+      const connectPromise = client.connect();
+      const ws = mockWs.instances[0]!;
+      ws.simulateOpen();
+      ws.simulateMessage({ type: 'connected', clientId: 'test' });
+      await connectPromise;
+      ws.clearSentMessages();
+
+      client.subscribe('orders');
+      client.subscribe('orders', { ack: 'auto' });
+
+      expect(ws.getSentMessages()).toEqual([
+        { type: 'subscribe', channel: 'orders' },
+        { type: 'subscribe', channel: 'orders', ack: true },
+      ]);
+    });
+
+    it('should use subscription.unsubscribe()', async () => {
+      const client = createClient();
+
+      const connectPromise = client.connect();
+      const ws = mockWs.instances[0]!;
+      ws.simulateOpen();
+      ws.simulateMessage({ type: 'connected', clientId: 'test' });
+      await connectPromise;
+
+      const subscription = client.subscribe('test-channel');
+      subscription.unsubscribe();
+
+      expect(client.isSubscribed('test-channel')).toBe(false);
+    });
+  });
+
+  describe('onConnectionChange', () => {
+    it('should notify on connection state changes', async () => {
+      const client = createClient();
+      const listener = vi.fn();
+      client.onConnectionChange(listener);
+
+      const connectPromise = client.connect();
+      expect(listener).toHaveBeenCalledWith('connecting', expect.objectContaining({ attempt: 0 }));
+
+      const ws = mockWs.instances[0]!;
+      ws.simulateOpen();
+      ws.simulateMessage({ type: 'connected', clientId: 'test' });
+      await connectPromise;
+
+      expect(listener).toHaveBeenCalledWith('connected', expect.objectContaining({ attempt: 0 }));
+    });
+
+    it('should allow unsubscribing', async () => {
+      const client = createClient();
+      const listener = vi.fn();
+      const unsubscribe = client.onConnectionChange(listener);
+
+      unsubscribe();
+
+      client.connect();
+      expect(listener).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getSubscribedChannels', () => {
+    it('should return list of subscribed channels', () => {
+      const client = createClient();
+
+      client.subscribe('channel-1');
+      client.subscribe('channel-2');
+
+      const channels = client.getSubscribedChannels();
+
+      expect(channels).toContain('channel-1');
+      expect(channels).toContain('channel-2');
+    });
+  });
+
+  describe('destroy', () => {
+    it('should clean up all resources', async () => {
+      const client = createClient();
+      const listener = vi.fn();
+      client.onConnectionChange(listener);
+
+      const connectPromise = client.connect();
+      const ws = mockWs.instances[0]!;
+      ws.simulateOpen();
+      ws.simulateMessage({ type: 'connected', clientId: 'test' });
+      await connectPromise;
+
+      client.subscribe('test-channel');
+      client.destroy();
+
+      expect(client.getSubscribedChannels()).toEqual([]);
+    });
+  });
+
+  describe('re-subscription on reconnect', () => {
+    it('should re-subscribe to channels on reconnect', async () => {
+      const client = createClient();
+
+      const connectPromise = client.connect();
+      const ws = mockWs.instances[0]!;
+      ws.simulateOpen();
+      ws.simulateMessage({ type: 'connected', clientId: 'test' });
+      await connectPromise;
+
+      client.subscribe('test-channel');
+      ws.clearSentMessages();
+
+      // Disconnect
+      client.disconnect();
+
+      // Reconnect
+      const reconnectPromise = client.connect();
+      const ws2 = mockWs.instances[1]!;
+      ws2.simulateOpen();
+      ws2.simulateMessage({ type: 'connected', clientId: 'test2' });
+      await reconnectPromise;
+
+      // Should have re-subscribed
+      expect(ws2.getSentMessages()).toContainEqual({
+        type: 'subscribe',
+        channel: 'test-channel',
+      });
+    });
+
+    it('should re-subscribe after an automatic reconnect', async () => {
+      const client = createClient({ reconnectDelay: 100 });
+
+      const connectPromise = client.connect();
+      const ws = mockWs.instances[0]!;
+      ws.simulateOpen();
+      ws.simulateMessage({ type: 'connected', clientId: 'test' });
+      await connectPromise;
+      client.subscribe('test-channel');
+
+      ws.simulateClose(1006);
+      await vi.advanceTimersByTimeAsync(200);
+
+      const ws2 = mockWs.instances[1]!;
+      ws2.simulateOpen();
+      ws2.simulateMessage({ type: 'connected', clientId: 'test2' });
+
+      expect(ws2.getSentMessages()).toContainEqual({ type: 'subscribe', channel: 'test-channel' });
+    });
+  });
+
+  describe('batched subscriptions', () => {
+    const connectClient = async (options = {}) => {
+      const client = createClient(options);
+      const connectPromise = client.connect();
+      const ws = mockWs.instances[0]!;
+      ws.simulateOpen();
+      ws.simulateMessage({ type: 'connected', clientId: 'test' });
+      await connectPromise;
+      ws.clearSentMessages();
+      return { client, ws };
+    };
+
+    it('should subscribe to several channels with one frame', async () => {
+      const { client, ws } = await connectClient();
+
+      const subscriptions = client.subscribeMany(['orders', 'chat', 'alerts']);
+
+      expect(subscriptions.map((subscription) => subscription.channel)).toEqual(['orders', 'chat', 'alerts']);
+      expect(ws.getSentMessages()).toEqual([{ type: 'subscribe', channels: ['orders', 'chat', 'alerts'] }]);
+    });
+
+    it('should split batches by subscribeBatchSize and ack mode', async () => {
+      const { client, ws } = await connectClient({ subscribeBatchSize: 2 });
+
+      client.subscribeMany(['a-1', 'a-2', 'a-3']);
+      client.subscribeMany(['b-1', 'b-2'], { ack: 'manual' });
+
+      expect(ws.getSentMessages()).toEqual([
+        { type: 'subscribe', channels: ['a-1', 'a-2'] },
+        { type: 'subscribe', channel: 'a-3' },
+        { type: 'subscribe', channels: ['b-1', 'b-2'], ack: true },
+      ]);
+    });
+
+    it('should send event type filters and batch channels by filter', async () => {
+      const { client, ws } = await connectClient();
+
+      client.subscribeMany(['orders', 'invoices'], { eventTypes: ['created'] });
+      client.subscribe('chat');
+
+      expect(ws.getSentMessages()).toEqual([
+        { type: 'subscribe', channels: ['orders', 'invoices'], eventTypes: ['created'] },
+        { type: 'subscribe', channel: 'chat' },
+      ]);
+    });
+
+    it('should widen the server filter when another listener needs more event types', async () => {
+      const { client, ws } = await connectClient();
+      const onCreated = vi.fn();
+
+      client.subscribe('orders', { eventTypes: ['created'], onMessage: onCreated });
+      client.subscribe('orders', { eventTypes: ['created'] });
+      client.subscribe('orders');
+
+      expect(ws.getSentMessages()).toEqual([
+        { type: 'subscribe', channel: 'orders', eventTypes: ['created'] },
+        { type: 'subscribe', channel: 'orders' },
+      ]);
+
+      // Filtered on the client too, for servers that ignore the filter
+      ws.simulateMessage({ type: 'message', channel: 'orders', messageId: 'msg-1', eventType: 'deleted', data: {} });
+      expect(onCreated).not.toHaveBeenCalled();
+    });
+
+    it('should validate every channel before subscribing any', async () => {
+      const { client, ws } = await connectClient();
+
+      expect(() => client.subscribeMany(['orders', 'Not Valid!'])).toThrow();
+      expect(client.getSubscribedChannels()).toEqual([]);
+      expect(ws.getSentMessages()).toEqual([]);
+    });
+
+    it('should feed per-channel results back into the subscriptions', async () => {
+      const { client, ws } = await connectClient();
+      const onError = vi.fn();
+
+      const [orders, secret] = client.subscribeMany(['orders', 'secret'], { onError });
+      const secretReady = secret!.ready.catch((error: unknown) => error);
+      ws.simulateMessage({
+        type: 'subscribed',
+        channels: ['orders'],
+        failed: [{ channel: 'secret', code: 'FORBIDDEN', error: 'Not allowed' }],
+      });
+
+      await expect(orders!.ready).resolves.toBeUndefined();
+      await expect(secretReady).resolves.toBeInstanceOf(AuthenticationError);
+      expect(onError).toHaveBeenCalledTimes(1);
+    });
+
+    it('should re-subscribe with batched frames after a reconnect', async () => {
+      const { client, ws } = await connectClient({ reconnectDelay: 100, subscribeBatchSize: 2 });
+      client.subscribeMany(['a-1', 'a-2', 'a-3']);
+
+      ws.simulateClose(1006);
+      await vi.advanceTimersByTimeAsync(200);
+      const ws2 = mockWs.instances[1]!;
+      ws2.simulateOpen();
+      ws2.simulateMessage({ type: 'connected', clientId: 'test2' });
+
+      expect(ws2.getSentMessages()).toEqual([
+        { type: 'subscribe', channels: ['a-1', 'a-2'] },
+        { type: 'subscribe', channel: 'a-3' },
+      ]);
+    });
+
+    it('should unsubscribe from several channels with one frame', async () => {
+      const { client, ws } = await connectClient();
+      client.subscribeMany(['orders', 'chat', 'alerts']);
+      ws.clearSentMessages();
+
+      client.unsubscribeMany(['orders', 'alerts', 'unknown']);
+
+      expect(client.getSubscribedChannels()).toEqual(['chat']);
+      expect(ws.getSentMessages()).toEqual([{ type: 'unsubscribe', channels: ['orders', 'alerts'] }]);
+    });
+  });
+
+  describe('message recovery', () => {
+    const mockFetch = vi.fn();
+
+    beforeEach(() => {
+      vi.stubGlobal('fetch', mockFetch);
+      mockFetch.mockReset();
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    const historyResponse = (items: unknown[]) => Promise.resolve({
+      ok: true,
+      status: 200,
+      json: () => Promise.resolve({
+        success: true,
+        data: {
+          items,
+          pagination: { page: 1, pageSize: 100, total: items.length, totalPages: 1 },
+        },
+      }),
+    });
+
+    const liveMessage = (id: string, timestamp: number) => ({
+      type: 'message',
+      channel: 'orders',
+      messageId: id,
+      data: { id },
+      timestamp,
+    });
+
+    const historyMessage = (id: string, timestamp: number) => ({
+      id,
+      channel: 'orders',
+      eventType: 'message',
+      clientId: 'server',
+      content: { id },
+      timestamp,
+    });
+
+    it('should backfill missed messages in order without duplicates', async () => {
+      const client = createClient({ recoverMessages: true });
+      const onMessage = vi.fn();
+      const onRecovered = vi.fn();
+      const recoveredHandler = vi.fn();
+      client.on('recovered', recoveredHandler);
+
+      const connectPromise = client.connect();
+      const ws = mockWs.instances[0]!;
+      ws.simulateOpen();
+      ws.simulateMessage({ type: 'connected', clientId: 'test' });
+      await connectPromise;
+
+      client.subscribe('orders', { onMessage, onRecovered });
+      ws.simulateMessage({ type: 'subscribed', channel: 'orders' });
+      ws.simulateMessage(liveMessage('m1', 1000));
+
+      client.disconnect();
+      const reconnectPromise = client.connect();
+      const ws2 = mockWs.instances[1]!;
+      ws2.simulateOpen();
+      ws2.simulateMessage({ type: 'connected', clientId: 'test2' });
+      await reconnectPromise;
+
+      mockFetch.mockReturnValue(historyResponse([
+        historyMessage('m3', 3000),
+        historyMessage('m1', 1000),
+        historyMessage('m2', 2000),
+      ]));
+      ws2.simulateMessage({ type: 'subscribed', channel: 'orders' });
+
+      // Live messages during backfill are held back
+      ws2.simulateMessage(liveMessage('m3', 3000));
+      ws2.simulateMessage(liveMessage('m4', 4000));
+      expect(onMessage).toHaveBeenCalledTimes(1);
+
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(onMessage.mock.calls.map(([message]) => message.id)).toEqual(['m1', 'm2', 'm3', 'm4']);
+      expect(onRecovered).toHaveBeenCalledWith(2);
+      expect(recoveredHandler).toHaveBeenCalledWith('orders', 2);
+
+      const [url, init] = mockFetch.mock.calls[0]!;
+      expect(url).toContain('/api/v1/channels/orders/messages');
+      expect(url).toContain('after=1000');
+      expect(init.headers.Authorization).toBe('Bearer pub_test123');
+    });
+
+    it('should not backfill channels that never received a message', async () => {
+      const client = createClient({ recoverMessages: true });
+      const connectPromise = client.connect();
+      const ws = mockWs.instances[0]!;
+      ws.simulateOpen();
+      ws.simulateMessage({ type: 'connected', clientId: 'test' });
+      await connectPromise;
+
+      client.subscribe('orders');
+      client.disconnect();
+      const reconnectPromise = client.connect();
+      const ws2 = mockWs.instances[1]!;
+      ws2.simulateOpen();
+      ws2.simulateMessage({ type: 'connected', clientId: 'test2' });
+      await reconnectPromise;
+      ws2.simulateMessage({ type: 'subscribed', channel: 'orders' });
+
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should report history failures and resume live delivery', async () => {
+      const client = createClient({ recoverMessages: true });
+      const onMessage = vi.fn();
+      const onError = vi.fn();
+
+      const connectPromise = client.connect();
+      const ws = mockWs.instances[0]!;
+      ws.simulateOpen();
+      ws.simulateMessage({ type: 'connected', clientId: 'test' });
+      await connectPromise;
+      client.subscribe('orders', { onMessage, onError });
+      ws.simulateMessage(liveMessage('m1', 1000));
+
+      client.disconnect();
+      const reconnectPromise = client.connect();
+      const ws2 = mockWs.instances[1]!;
+      ws2.simulateOpen();
+      ws2.simulateMessage({ type: 'connected', clientId: 'test2' });
+      await reconnectPromise;
+
+      mockFetch.mockReturnValue(Promise.resolve({
+        ok: false,
+        status: 404,
+        json: () => Promise.resolve({ error: 'Not found' }),
+      }));
+      ws2.simulateMessage({ type: 'subscribed', channel: 'orders' });
+      ws2.simulateMessage(liveMessage('m5', 5000));
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(onError).toHaveBeenCalled();
+      expect(onMessage.mock.calls.map(([message]) => message.id)).toEqual(['m1', 'm5']);
+    });
+
+    /** Receive a message, then reconnect so the channel starts recovering */
+    const reconnectWithRecovery = async (client: PushFloClient) => {
+      const connectPromise = client.connect();
+      const ws = mockWs.instances[0]!;
+      ws.simulateOpen();
+      ws.simulateMessage({ type: 'connected', clientId: 'test' });
+      await connectPromise;
+      ws.simulateMessage({ type: 'subscribed', channel: 'orders' });
+      ws.simulateMessage(liveMessage('m1', 1000));
+
+      client.disconnect();
+      const reconnectPromise = client.connect();
+      const ws2 = mockWs.instances[1]!;
+      ws2.simulateOpen();
+      ws2.simulateMessage({ type: 'connected', clientId: 'test2' });
+      await reconnectPromise;
+      return ws2;
+    };
+
+    it('should end recovery when the resubscribe fails', async () => {
+      const client = createClient({ recoverMessages: true });
+      const onMessage = vi.fn();
+      const onError = vi.fn();
+      client.subscribe('orders', { onMessage, onError });
+
+      const ws = await reconnectWithRecovery(client);
+      ws.simulateMessage(liveMessage('m2', 2000));
+      ws.simulateMessage({ type: 'error', channel: 'orders', code: 'FORBIDDEN', error: 'Forbidden' });
+      ws.simulateMessage(liveMessage('m3', 3000));
+
+      expect(onError).toHaveBeenCalledWith(expect.objectContaining({ code: 'FORBIDDEN' }));
+      expect(onMessage.mock.calls.map(([message]) => message.id)).toEqual(['m1', 'm2', 'm3']);
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should end recovery when the resubscribe is not confirmed in time', async () => {
+      const client = createClient({ recoverMessages: true, subscribeTimeout: 1000 });
+      const onMessage = vi.fn();
+      const onError = vi.fn();
+      client.subscribe('orders', { onMessage, onError });
+
+      const ws = await reconnectWithRecovery(client);
+      ws.simulateMessage(liveMessage('m2', 2000));
+      await vi.advanceTimersByTimeAsync(1000);
+      ws.simulateMessage(liveMessage('m3', 3000));
+
+      expect(onError).toHaveBeenCalledWith(expect.objectContaining({ code: 'REQUEST_TIMEOUT' }));
+      expect(onMessage.mock.calls.map(([message]) => message.id)).toEqual(['m1', 'm2', 'm3']);
     });
   });
 });
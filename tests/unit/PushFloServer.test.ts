@@ -2,6 +2,7 @@ import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { PushFloServer } from '../../src/server/PushFloServer.js';
 import { AuthenticationError } from '../../src/errors/AuthenticationError.js';
 import { NetworkError } from '../../src/errors/NetworkError.js';
+import { ValidationError } from '../../src/errors/ValidationError.js';
 
 describe('PushFloServer', () => {
   const mockFetch = vi.fn();
@@ -241,6 +242,48 @@ describe('PushFloServer', () => {
       );
     });
 
+    it('should publish encrypted content', async () => {
+      const server = createServer();
+      mockFetch.mockReturnValue(mockResponse({ success: true, data: { id: 'msg-1' } }));
+      const key = { id: 'key-1', key: btoa(String.fromCharCode(...new Uint8Array(32).fill(7))) };
+
+      await server.publish('test-channel', { diagnosis: 'private' }, { encryption: key });
+
+      const body = JSON.parse(mockFetch.mock.calls[0]![1].body);
+      expect(JSON.stringify(body)).not.toContain('private');
+      expect(body.content._encrypted).toMatchObject({ alg: 'AES-GCM', keyId: 'key-1' });
+      expect(body.eventType).toBe('message');
+    });
+
+    it('should validate content before publishing', async () => {
+      type Channels = { orders: { created: { id: string; total: number } } };
+      const server = new PushFloServer<Channels>({
+        secretKey: 'sec_test123',
+        validators: {
+          orders: {
+            created: {
+              parse: (input) => {
+                const order = input as { id: string; total: unknown };
+                if (typeof order.total !== 'number') {
+                  throw new Error('total must be a number');
+                }
+                return { id: order.id, total: order.total };
+              },
+            },
+          },
+        },
+      });
+      mockFetch.mockReturnValue(mockResponse({ success: true, data: { id: 'msg-1' } }));
+
+      const invalid = { id: 'o-1', total: '12' } as unknown as { id: string; total: number };
+      await expect(server.publish('orders', invalid, { eventType: 'created' }))
+        .rejects.toThrow("Invalid content for event 'created' on channel 'orders': total must be a number");
+      expect(mockFetch).not.toHaveBeenCalled();
+
+      await server.publish('orders', { id: 'o-1', total: 12 }, { eventType: 'created' });
+      expect(JSON.parse(mockFetch.mock.calls[0]![1].body).content).toEqual({ id: 'o-1', total: 12 });
+    });
+
     it('should publish with custom event type', async () => {
       const server = createServer();
       mockFetch.mockReturnValue(
@@ -275,6 +318,78 @@ describe('PushFloServer', () => {
     });
   });
 
+  describe('createClientToken', () => {
+    it('should request a client token', async () => {
+      const server = createServer();
+      const token = {
+        token: 'tok_abc',
+        clientId: 'user-1',
+        channels: ['orders'],
+        expiresAt: 1700000000000,
+      };
+      mockFetch.mockReturnValue(mockResponse({ success: true, data: token }));
+
+      const result = await server.createClientToken({
+        clientId: 'user-1',
+        channels: ['orders'],
+        ttl: 300,
+      });
+
+      expect(result).toEqual(token);
+      const [url, init] = mockFetch.mock.calls[0]!;
+      expect(url).toContain('/api/v1/auth/token');
+      expect(init.method).toBe('POST');
+      expect(JSON.parse(init.body)).toEqual({ clientId: 'user-1', channels: ['orders'], ttl: 300 });
+    });
+
+    it('should validate channel slugs', async () => {
+      const server = createServer();
+
+      await expect(server.createClientToken({ channels: ['Bad Slug'] })).rejects.toThrow(ValidationError);
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should reject a non-positive ttl', async () => {
+      const server = createServer();
+
+      await expect(server.createClientToken({ ttl: 0 })).rejects.toThrow('ttl must be a positive');
+    });
+  });
+
+  describe('authorizeChannel', () => {
+    it('should request a signed channel grant', async () => {
+      const server = createServer();
+      const grant = { channel: 'secret-channel', clientId: 'client-1', auth: 'sig_abc' };
+      mockFetch.mockReturnValue(mockResponse({ success: true, data: grant }));
+
+      const result = await server.authorizeChannel('secret-channel', 'client-1');
+
+      expect(result).toEqual(grant);
+      const [url, init] = mockFetch.mock.calls[0]!;
+      expect(url).toContain('/api/v1/channels/secret-channel/auth');
+      expect(JSON.parse(init.body)).toEqual({ clientId: 'client-1' });
+    });
+
+    it('should require a client ID', async () => {
+      const server = createServer();
+
+      await expect(server.authorizeChannel('secret-channel', '')).rejects.toThrow('clientId is required');
+    });
+  });
+
+  describe('getPresence', () => {
+    it('should get channel members', async () => {
+      const server = createServer();
+      const members = [{ clientId: 'client-1', data: { name: 'Ada' }, timestamp: 1 }];
+      mockFetch.mockReturnValue(mockResponse({ success: true, data: members }));
+
+      const result = await server.getPresence('doc-1');
+
+      expect(result).toEqual(members);
+      expect(mockFetch.mock.calls[0]![0]).toContain('/api/v1/channels/doc-1/presence');
+    });
+  });
+
   describe('getMessageHistory', () => {
     it('should get message history', async () => {
       const server = createServer();
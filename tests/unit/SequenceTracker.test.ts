@@ -0,0 +1,111 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { SequenceTracker } from '../../src/client/SequenceTracker.js';
+import type { Message, SequenceGap } from '../../src/types/message.js';
+
+describe('SequenceTracker', () => {
+  let delivered: number[];
+  let gaps: SequenceGap[];
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    delivered = [];
+    gaps = [];
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const createTracker = (reorderWindow = 0) => {
+    return new SequenceTracker({
+      reorderWindow,
+      onDeliver: (message) => delivered.push(message.sequence ?? -1),
+      onGap: (gap) => gaps.push(gap),
+    });
+  };
+
+  const createMessage = (sequence?: number, channel = 'test-channel'): Message => ({
+    id: `msg-${sequence}`,
+    channel,
+    eventType: 'message',
+    clientId: 'client-1',
+    content: {},
+    timestamp: Date.now(),
+    sequence,
+  });
+
+  it('should pass unsequenced messages straight through', () => {
+    const tracker = createTracker(1000);
+
+    tracker.process(createMessage(undefined));
+
+    expect(delivered).toEqual([-1]);
+  });
+
+  it('should deliver consecutive messages without gaps', () => {
+    const tracker = createTracker();
+
+    [5, 6, 7].forEach((sequence) => tracker.process(createMessage(sequence)));
+
+    expect(delivered).toEqual([5, 6, 7]);
+    expect(gaps).toEqual([]);
+  });
+
+  it('should report gaps immediately without a reorder window', () => {
+    const tracker = createTracker();
+
+    [1, 2, 5].forEach((sequence) => tracker.process(createMessage(sequence)));
+
+    expect(delivered).toEqual([1, 2, 5]);
+    expect(gaps).toEqual([{ channel: 'test-channel', from: 3, to: 4 }]);
+  });
+
+  it('should reorder messages that arrive within the window', () => {
+    const tracker = createTracker(1000);
+
+    [1, 3, 4, 2].forEach((sequence) => tracker.process(createMessage(sequence)));
+
+    expect(delivered).toEqual([1, 2, 3, 4]);
+    expect(gaps).toEqual([]);
+
+    vi.advanceTimersByTime(1000);
+    expect(gaps).toEqual([]);
+  });
+
+  it('should report gaps and deliver held messages when the window expires', () => {
+    const tracker = createTracker(1000);
+
+    [1, 3, 6].forEach((sequence) => tracker.process(createMessage(sequence)));
+    expect(delivered).toEqual([1]);
+
+    vi.advanceTimersByTime(1000);
+
+    expect(delivered).toEqual([1, 3, 6]);
+    expect(gaps).toEqual([
+      { channel: 'test-channel', from: 2, to: 2 },
+      { channel: 'test-channel', from: 4, to: 5 },
+    ]);
+  });
+
+  it('should track channels separately', () => {
+    const tracker = createTracker();
+
+    tracker.process(createMessage(1, 'orders'));
+    tracker.process(createMessage(10, 'billing'));
+    tracker.process(createMessage(2, 'orders'));
+
+    expect(gaps).toEqual([]);
+  });
+
+  it('should drop held messages when a channel is forgotten', () => {
+    const tracker = createTracker(1000);
+
+    tracker.process(createMessage(1));
+    tracker.process(createMessage(3));
+    tracker.forget('test-channel');
+    vi.advanceTimersByTime(1000);
+
+    expect(delivered).toEqual([1]);
+    expect(gaps).toEqual([]);
+  });
+});
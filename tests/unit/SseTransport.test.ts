@@ -0,0 +1,98 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { SseTransport } from '../../src/client/SseTransport.js';
+import { MockEventSource } from '../mocks/MockEventSource.js';
+
+describe('SseTransport', () => {
+  const mockFetch = vi.fn();
+
+  beforeEach(() => {
+    MockEventSource.reset();
+    mockFetch.mockReset();
+    mockFetch.mockResolvedValue({ ok: true, status: 200 });
+    vi.stubGlobal('fetch', mockFetch);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const createTransport = (token = 'tok_1') => {
+    const transport = new SseTransport({
+      streamUrl: 'https://api.example.com/sse?token=tok_1',
+      sendUrl: (clientId) => `https://api.example.com/sse/${clientId}`,
+      getToken: () => token,
+      EventSource: MockEventSource,
+    });
+    return { transport, source: MockEventSource.instances[0]! };
+  };
+
+  it('should open the event stream and forward frames', () => {
+    const { transport, source } = createTransport();
+    const onopen = vi.fn();
+    const onmessage = vi.fn();
+    transport.onopen = onopen;
+    transport.onmessage = onmessage;
+
+    expect(source.url).toBe('https://api.example.com/sse?token=tok_1');
+
+    source.simulateOpen();
+    source.simulateMessage({ type: 'connected', clientId: 'client-1' });
+
+    expect(transport.readyState).toBe(1);
+    expect(onopen).toHaveBeenCalled();
+    expect(JSON.parse(onmessage.mock.calls[0]![0].data)).toEqual({ type: 'connected', clientId: 'client-1' });
+  });
+
+  it('should not send before the server assigns a client ID', () => {
+    const { transport, source } = createTransport();
+    source.simulateOpen();
+
+    expect(() => transport.send('{}')).toThrow('SSE transport is not open');
+  });
+
+  it('should post frames in order with the current token', async () => {
+    const { transport, source } = createTransport();
+    source.simulateOpen();
+    source.simulateMessage({ type: 'connected', clientId: 'client-1' });
+
+    transport.send(JSON.stringify({ type: 'subscribe', channel: 'orders' }));
+    transport.send(JSON.stringify({ type: 'ack', channel: 'orders', messageId: 'msg-1' }));
+    await vi.waitFor(() => expect(mockFetch).toHaveBeenCalledTimes(2));
+
+    expect(mockFetch).toHaveBeenNthCalledWith(1, 'https://api.example.com/sse/client-1', expect.objectContaining({
+      method: 'POST',
+      headers: expect.objectContaining({ Authorization: 'Bearer tok_1' }),
+      body: JSON.stringify({ type: 'subscribe', channel: 'orders' }),
+    }));
+    expect(mockFetch.mock.calls[1]![1].body).toContain('"ack"');
+  });
+
+  it('should report failed posts as errors', async () => {
+    mockFetch.mockResolvedValue({ ok: false, status: 401 });
+    const { transport, source } = createTransport();
+    const onerror = vi.fn();
+    transport.onerror = onerror;
+    source.simulateOpen();
+    source.simulateMessage({ type: 'connected', clientId: 'client-1' });
+
+    transport.send('{}');
+
+    await vi.waitFor(() => expect(onerror).toHaveBeenCalled());
+    expect(onerror.mock.calls[0]![0].message).toContain('HTTP 401');
+  });
+
+  it('should close once when the stream fails', () => {
+    const { transport, source } = createTransport();
+    const onclose = vi.fn();
+    transport.onclose = onclose;
+    source.simulateOpen();
+
+    source.simulateError();
+    source.simulateError();
+
+    expect(source.closed).toBe(true);
+    expect(transport.readyState).toBe(3);
+    expect(onclose).toHaveBeenCalledTimes(1);
+    expect(onclose).toHaveBeenCalledWith({ code: 1006, reason: 'Event stream failed' });
+  });
+});
@@ -1,5 +1,7 @@
 import { describe, it, expect, vi } from 'vitest';
 import { SubscriptionManager } from '../../src/client/SubscriptionManager.js';
+import { encryptContent } from '../../src/utils/encryption.js';
+import { DecryptionError } from '../../src/errors/DecryptionError.js';
 import type { Message } from '../../src/types/message.js';
 
 describe('SubscriptionManager', () => {
@@ -146,4 +148,359 @@ describe('SubscriptionManager', () => {
 
     expect(onUnsubscribed).toHaveBeenCalled();
   });
+
+  describe('acknowledgements', () => {
+    it('should not ack without an ack mode', () => {
+      const manager = new SubscriptionManager();
+      const sendAck = vi.fn();
+      manager.add('test-channel', { onMessage: vi.fn() });
+
+      manager.handleMessage(createMessage('test-channel'), sendAck);
+
+      expect(sendAck).not.toHaveBeenCalled();
+    });
+
+    it('should pass an ack function in manual mode', () => {
+      const manager = new SubscriptionManager();
+      const sendAck = vi.fn();
+      const onMessage = vi.fn();
+      manager.add('test-channel', { ack: 'manual', onMessage });
+
+      manager.handleMessage(createMessage('test-channel'), sendAck);
+      expect(sendAck).not.toHaveBeenCalled();
+
+      const received = onMessage.mock.calls[0]![0];
+      received.ack();
+      received.ack();
+
+      expect(sendAck).toHaveBeenCalledTimes(1);
+      expect(sendAck).toHaveBeenCalledWith('test-channel', 'msg-1');
+    });
+
+    it('should ack after the handler resolves in auto mode', async () => {
+      const manager = new SubscriptionManager();
+      const sendAck = vi.fn();
+      let finish!: () => void;
+      manager.add('test-channel', {
+        ack: 'auto',
+        onMessage: () => new Promise<void>((resolve) => { finish = resolve; }),
+      });
+
+      manager.handleMessage(createMessage('test-channel'), sendAck);
+      await Promise.resolve();
+      expect(sendAck).not.toHaveBeenCalled();
+
+      finish();
+      await Promise.resolve();
+      await Promise.resolve();
+
+      expect(sendAck).toHaveBeenCalledWith('test-channel', 'msg-1');
+    });
+
+    it('should not ack when the handler fails in auto mode', async () => {
+      const manager = new SubscriptionManager();
+      const sendAck = vi.fn();
+      const onError = vi.fn();
+      manager.add('test-channel', {
+        ack: 'auto',
+        onMessage: async () => {
+          throw new Error('handler failed');
+        },
+        onError,
+      });
+
+      manager.handleMessage(createMessage('test-channel'), sendAck);
+      await Promise.resolve();
+      await Promise.resolve();
+
+      expect(sendAck).not.toHaveBeenCalled();
+      expect(onError).toHaveBeenCalledWith(expect.objectContaining({ message: 'handler failed' }));
+    });
+
+    it('should not ack when a sync handler throws in auto mode', () => {
+      const manager = new SubscriptionManager();
+      const sendAck = vi.fn();
+      const onError = vi.fn();
+      manager.add('test-channel', {
+        ack: 'auto',
+        onMessage: () => {
+          throw new Error('boom');
+        },
+        onError,
+      });
+
+      manager.handleMessage(createMessage('test-channel'), sendAck);
+
+      expect(sendAck).not.toHaveBeenCalled();
+      expect(onError).toHaveBeenCalled();
+    });
+  });
+
+  describe('recovery', () => {
+    it('should track the last seen message', () => {
+      const manager = new SubscriptionManager();
+      manager.add('test-channel', {});
+
+      expect(manager.getLastSeen('test-channel')).toBeNull();
+
+      manager.handleMessage({ ...createMessage('test-channel'), id: 'msg-7', timestamp: 700 });
+
+      expect(manager.getLastSeen('test-channel')).toEqual({ id: 'msg-7', timestamp: 700 });
+    });
+
+    it('should buffer messages until recovery finishes', () => {
+      const manager = new SubscriptionManager();
+      manager.add('test-channel', {});
+
+      const recoveryId = manager.startRecovery('test-channel')!;
+      expect(manager.isRecovering('test-channel')).toBe(true);
+
+      const message = createMessage('test-channel');
+      manager.bufferMessage(message);
+
+      expect(manager.finishRecovery('test-channel', recoveryId)).toEqual([message]);
+      expect(manager.isRecovering('test-channel')).toBe(false);
+    });
+
+    it('should ignore a superseded recovery', () => {
+      const manager = new SubscriptionManager();
+      manager.add('test-channel', {});
+
+      const staleId = manager.startRecovery('test-channel')!;
+      const currentId = manager.startRecovery('test-channel')!;
+
+      expect(manager.finishRecovery('test-channel', staleId)).toBeNull();
+      expect(manager.finishRecovery('test-channel', currentId)).toEqual([]);
+    });
+  });
+
+  describe('multiple listeners', () => {
+    it('should deliver messages to every listener', () => {
+      const manager = new SubscriptionManager();
+      const first = vi.fn();
+      const second = vi.fn();
+      manager.add('test-channel', { onMessage: first });
+      manager.add('test-channel', { onMessage: second });
+
+      const message = createMessage('test-channel');
+      manager.handleMessage(message);
+
+      expect(first).toHaveBeenCalledWith(message);
+      expect(second).toHaveBeenCalledWith(message);
+      expect(manager.size).toBe(1);
+      expect(manager.listenerCount('test-channel')).toBe(2);
+    });
+
+    it('should remove only the given listener', () => {
+      const manager = new SubscriptionManager();
+      const first = { onMessage: vi.fn(), onUnsubscribed: vi.fn() };
+      const second = { onMessage: vi.fn(), onUnsubscribed: vi.fn() };
+      const firstId = manager.add('test-channel', first);
+      const secondId = manager.add('test-channel', second);
+
+      expect(manager.removeListener('test-channel', firstId)).toBe(true);
+      expect(manager.removeListener('test-channel', firstId)).toBe(false);
+
+      manager.handleMessage(createMessage('test-channel'));
+
+      expect(first.onUnsubscribed).toHaveBeenCalled();
+      expect(first.onMessage).not.toHaveBeenCalled();
+      expect(second.onMessage).toHaveBeenCalled();
+      expect(manager.has('test-channel')).toBe(true);
+
+      manager.removeListener('test-channel', secondId);
+
+      expect(manager.has('test-channel')).toBe(false);
+    });
+
+    it('should confirm late listeners immediately', () => {
+      const manager = new SubscriptionManager();
+      manager.add('test-channel', {});
+      manager.confirm('test-channel');
+
+      const onSubscribed = vi.fn();
+      manager.add('test-channel', { onSubscribed });
+
+      expect(onSubscribed).toHaveBeenCalled();
+    });
+
+    it('should notify listeners only on the first confirmation per connection', () => {
+      const manager = new SubscriptionManager();
+      const onFirstSubscribed = vi.fn();
+      manager.add('test-channel', { onSubscribed: onFirstSubscribed });
+      manager.confirm('test-channel');
+
+      // A listener widening the options re-sends the subscribe and waits until the server confirms it
+      const onLateSubscribed = vi.fn();
+      manager.add('test-channel', { ack: 'auto', onSubscribed: onLateSubscribed });
+      expect(onLateSubscribed).not.toHaveBeenCalled();
+      expect(manager.isConfirmed('test-channel')).toBe(false);
+      manager.confirm('test-channel');
+
+      expect(onFirstSubscribed).toHaveBeenCalledTimes(1);
+      expect(onLateSubscribed).toHaveBeenCalledTimes(1);
+
+      manager.resetConfirmations();
+      manager.confirm('test-channel');
+      expect(onFirstSubscribed).toHaveBeenCalledTimes(2);
+    });
+
+    it('should combine subscribe options from all listeners', () => {
+      const manager = new SubscriptionManager();
+      manager.add('test-channel', {});
+
+      expect(manager.getSubscribeOptions('test-channel')).toEqual({ isPrivate: false, ack: false, eventTypes: null });
+
+      manager.add('test-channel', { ack: 'auto', isPrivate: true });
+
+      expect(manager.getSubscribeOptions('test-channel')).toEqual({ isPrivate: true, ack: true, eventTypes: null });
+    });
+
+    it('should combine event type filters from all listeners', () => {
+      const manager = new SubscriptionManager();
+      manager.add('test-channel', { eventTypes: ['updated', 'created'] });
+      manager.add('test-channel', { eventTypes: ['created', 'deleted'] });
+
+      expect(manager.getSubscribeOptions('test-channel').eventTypes).toEqual(['created', 'deleted', 'updated']);
+
+      // A listener without a filter needs every event type
+      manager.add('test-channel', {});
+      expect(manager.getSubscribeOptions('test-channel').eventTypes).toBeNull();
+    });
+
+    it('should only deliver the event types a listener asked for', () => {
+      const manager = new SubscriptionManager();
+      const created = vi.fn();
+      const everything = vi.fn();
+      manager.add('test-channel', { eventTypes: ['created'], onMessage: created });
+      manager.add('test-channel', { onMessage: everything });
+
+      manager.handleMessage({ ...createMessage('test-channel'), eventType: 'created' });
+      manager.handleMessage({ ...createMessage('test-channel'), id: 'msg-2', eventType: 'deleted' });
+
+      expect(created).toHaveBeenCalledTimes(1);
+      expect(created).toHaveBeenCalledWith(expect.objectContaining({ eventType: 'created' }));
+      expect(everything).toHaveBeenCalledTimes(2);
+    });
+
+    it('should ack messages filtered out on the client', () => {
+      const manager = new SubscriptionManager();
+      const sendAck = vi.fn();
+      const onMessage = vi.fn();
+      manager.add('test-channel', { ack: 'manual', eventTypes: ['created'], onMessage });
+
+      manager.handleMessage({ ...createMessage('test-channel'), eventType: 'deleted' }, sendAck);
+
+      expect(onMessage).not.toHaveBeenCalled();
+      expect(sendAck).toHaveBeenCalledWith('test-channel', 'msg-1');
+    });
+
+    it('should ack once every acking listener is done', () => {
+      const manager = new SubscriptionManager();
+      const sendAck = vi.fn();
+      const first = vi.fn();
+      const second = vi.fn();
+      manager.add('test-channel', { ack: 'manual', onMessage: first });
+      manager.add('test-channel', { ack: 'manual', onMessage: second });
+      manager.add('test-channel', { onMessage: vi.fn() });
+
+      manager.handleMessage(createMessage('test-channel'), sendAck);
+
+      first.mock.calls[0]![0].ack();
+      expect(sendAck).not.toHaveBeenCalled();
+
+      second.mock.calls[0]![0].ack();
+      expect(sendAck).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('ready', () => {
+    it('should resolve ready on confirm', async () => {
+      const manager = new SubscriptionManager();
+      const id = manager.add('test-channel');
+
+      expect(manager.hasPendingReady('test-channel')).toBe(true);
+      manager.confirm('test-channel');
+
+      await expect(manager.getReady('test-channel', id)).resolves.toBeUndefined();
+      expect(manager.hasPendingReady('test-channel')).toBe(false);
+    });
+
+    it('should reject ready on error', async () => {
+      const manager = new SubscriptionManager();
+      const id = manager.add('test-channel');
+      const error = new Error('Denied');
+
+      manager.handleError('test-channel', error);
+
+      await expect(manager.getReady('test-channel', id)).rejects.toBe(error);
+    });
+
+    it('should not change ready after it has settled', async () => {
+      const manager = new SubscriptionManager();
+      const id = manager.add('test-channel');
+      const ready = manager.getReady('test-channel', id);
+
+      manager.confirm('test-channel');
+      manager.handleError('test-channel', new Error('Later error'));
+
+      await expect(ready).resolves.toBeUndefined();
+    });
+  });
+
+  describe('decryption', () => {
+    const key = { id: 'key-1', key: btoa(String.fromCharCode(...new Uint8Array(32).fill(9))) };
+
+    it('should decrypt messages in order before onMessage', async () => {
+      const manager = new SubscriptionManager();
+      const onMessage = vi.fn();
+      manager.add('test-channel', { decryptionKey: key, allowUnencrypted: true, onMessage });
+
+      manager.handleMessage(createMessage('test-channel', await encryptContent({ n: 1 }, key)));
+      manager.handleMessage(createMessage('test-channel', { n: 2 }));
+
+      await vi.waitFor(() => expect(onMessage).toHaveBeenCalledTimes(2));
+      expect(onMessage.mock.calls.map(([message]) => message.content)).toEqual([{ n: 1 }, { n: 2 }]);
+    });
+
+    it('should report unencrypted messages to onError', async () => {
+      const manager = new SubscriptionManager();
+      const onMessage = vi.fn();
+      const onError = vi.fn();
+      manager.add('test-channel', { decryptionKey: key, onMessage, onError });
+
+      manager.handleMessage(createMessage('test-channel', { n: 1 }));
+
+      await vi.waitFor(() => expect(onError).toHaveBeenCalled());
+      expect(onError.mock.calls[0]![0]).toMatchObject({ code: 'MESSAGE_NOT_ENCRYPTED' });
+      expect(onMessage).not.toHaveBeenCalled();
+    });
+
+    it('should report decryption failures to onError without acking', async () => {
+      const manager = new SubscriptionManager();
+      const onMessage = vi.fn();
+      const onError = vi.fn();
+      const sendAck = vi.fn();
+      manager.add('test-channel', { decryptionKey: key, ack: 'auto', onMessage, onError });
+
+      const otherKey = { id: 'key-2', key: key.key };
+      manager.handleMessage(createMessage('test-channel', await encryptContent({ n: 1 }, otherKey)), sendAck);
+
+      await vi.waitFor(() => expect(onError).toHaveBeenCalled());
+      expect(onError.mock.calls[0]![0]).toBeInstanceOf(DecryptionError);
+      expect(onMessage).not.toHaveBeenCalled();
+      expect(sendAck).not.toHaveBeenCalled();
+    });
+
+    it('should leave content untouched for listeners without a key', async () => {
+      const manager = new SubscriptionManager();
+      const onMessage = vi.fn();
+      manager.add('test-channel', { onMessage });
+
+      const content = await encryptContent({ n: 1 }, key);
+      manager.handleMessage(createMessage('test-channel', content));
+
+      expect(onMessage.mock.calls[0]![0].content).toEqual(content);
+    });
+  });
 });
@@ -1,6 +1,12 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { WebSocketManager } from '../../src/client/WebSocketManager.js';
-import { installMockWebSocket, type MockWebSocket } from '../mocks/MockWebSocket.js';
+import type { ConnectionError } from '../../src/errors/ConnectionError.js';
+import { installMockWebSocket, MockWebSocket } from '../mocks/MockWebSocket.js';
+import { MockEventSource } from '../mocks/MockEventSource.js';
+import { MockNetworkStatus } from '../mocks/MockNetworkStatus.js';
+import { msgpackCodec } from '../../src/utils/codec.js';
+import { encodeMsgPack, decodeMsgPack } from '../../src/utils/msgpack.js';
+import { DEFAULTS } from '../../src/utils/constants.js';
 
 describe('WebSocketManager', () => {
   let mockWs: { instances: MockWebSocket[]; restore: () => void };
@@ -247,6 +253,313 @@ describe('WebSocketManager', () => {
       // Disconnected event should have been emitted
       expect(disconnectedHandler).toHaveBeenCalled();
     });
+
+    it('should report reconnect details while reconnecting', async () => {
+      const manager = createManager({ reconnectDelay: 1000 });
+      const states: string[] = [];
+      manager.onStateChange((state) => states.push(state));
+
+      const connectPromise = manager.connect();
+      const ws = mockWs.instances[0]!;
+      ws.simulateOpen();
+      ws.simulateMessage({ type: 'connected', clientId: 'test' });
+      await connectPromise;
+
+      const closedAt = Date.now();
+      ws.simulateClose(1006, 'Abnormal closure');
+
+      expect(manager.state).toBe('reconnecting');
+      const details = manager.details;
+      expect(details).toMatchObject({ attempt: 1, lastCloseCode: 1006 });
+      expect(details.nextRetryAt).toBeGreaterThanOrEqual(closedAt + 750);
+      expect(details.nextRetryAt).toBeLessThanOrEqual(closedAt + 1250);
+
+      // The attempt itself is a connect with its attempt number
+      vi.advanceTimersByTime(1250);
+      expect(manager.state).toBe('connecting');
+      expect(manager.details).toMatchObject({ attempt: 1, nextRetryAt: null });
+      expect(states).toEqual(['connecting', 'connected', 'reconnecting', 'reconnecting', 'connecting']);
+    });
+
+    it('should fail after the last reconnect attempt', async () => {
+      const manager = createManager({ maxReconnectAttempts: 1, reconnectDelay: 100 });
+
+      const connectPromise = manager.connect();
+      const ws1 = mockWs.instances[0]!;
+      ws1.simulateOpen();
+      ws1.simulateMessage({ type: 'connected', clientId: 'test' });
+      await connectPromise;
+
+      ws1.simulateClose(1006);
+      await vi.advanceTimersByTimeAsync(200);
+
+      const ws2 = mockWs.instances[1]!;
+      ws2.simulateClose(1006);
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(manager.state).toBe('failed');
+      expect(manager.details.lastCloseCode).toBe(1006);
+      expect(manager.details.lastError).toMatchObject({ code: 'MAX_RECONNECT_ATTEMPTS' });
+
+      // No more attempts
+      await vi.advanceTimersByTimeAsync(60000);
+      expect(mockWs.instances).toHaveLength(2);
+    });
+
+    const connectManager = async (options = {}) => {
+      const manager = createManager({ reconnectDelay: 1000, ...options });
+      const connectPromise = manager.connect();
+      const ws = mockWs.instances[mockWs.instances.length - 1]!;
+      ws.simulateOpen();
+      ws.simulateMessage({ type: 'connected', clientId: 'test' });
+      await connectPromise;
+      return { manager, ws };
+    };
+
+    it('should not reconnect after an unauthorized close', async () => {
+      const { manager, ws } = await connectManager();
+      const errorHandler = vi.fn();
+      manager.on('error', errorHandler);
+
+      ws.simulateClose(4001, 'Key revoked');
+
+      expect(manager.state).toBe('failed');
+      expect(errorHandler).toHaveBeenCalledWith(
+        expect.objectContaining({ name: 'ConnectionError', code: 'UNAUTHORIZED', closeCode: 4001 })
+      );
+
+      vi.advanceTimersByTime(60000);
+      expect(mockWs.instances).toHaveLength(1);
+    });
+
+    it('should not reconnect after an auth error frame', async () => {
+      const { manager, ws } = await connectManager();
+      const errorHandler = vi.fn();
+      manager.on('error', errorHandler);
+
+      ws.simulateMessage({ type: 'error', code: 'UNAUTHORIZED', error: 'Key revoked' });
+      ws.simulateClose(1008);
+
+      expect(manager.state).toBe('failed');
+      expect(manager.details.lastError).toMatchObject({ name: 'AuthenticationError', code: 'UNAUTHORIZED' });
+      expect(errorHandler).toHaveBeenCalledTimes(1);
+
+      vi.advanceTimersByTime(60000);
+      expect(mockWs.instances).toHaveLength(1);
+    });
+
+    it('should stop reconnecting when an attempt is refused', async () => {
+      const { manager, ws } = await connectManager();
+
+      ws.simulateClose(1006);
+      vi.advanceTimersByTime(1250);
+
+      const retry = mockWs.instances[1]!;
+      retry.simulateOpen();
+      retry.simulateMessage({ type: 'error', code: 'INVALID_TOKEN', error: 'Token revoked' });
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(manager.state).toBe('failed');
+      await vi.advanceTimersByTimeAsync(60000);
+      expect(mockWs.instances).toHaveLength(2);
+    });
+
+    it('should wait for the delay the server asks for', async () => {
+      const { manager, ws } = await connectManager();
+
+      ws.simulateMessage({ type: 'error', code: 'RATE_LIMITED', error: 'Too many connections', retryAfter: 30 });
+      ws.simulateClose(4029);
+
+      expect(manager.state).toBe('reconnecting');
+      expect(manager.details.nextRetryAt).toBe(Date.now() + 30000);
+
+      vi.advanceTimersByTime(29999);
+      expect(mockWs.instances).toHaveLength(1);
+      vi.advanceTimersByTime(1);
+      expect(mockWs.instances).toHaveLength(2);
+    });
+
+    it('should reconnect immediately when the server is going away', async () => {
+      const { manager, ws } = await connectManager({ reconnectDelay: 10000 });
+      const disconnectedHandler = vi.fn();
+      const errorHandler = vi.fn();
+      manager.on('disconnected', disconnectedHandler);
+      manager.on('error', errorHandler);
+
+      // A going-away notice moves the client before the server closes
+      ws.simulateMessage({ type: 'error', code: 'GOING_AWAY', error: 'Draining' });
+      expect(disconnectedHandler).toHaveBeenCalledWith('Server going away');
+      vi.advanceTimersByTime(0);
+      expect(mockWs.instances).toHaveLength(2);
+
+      const next = mockWs.instances[1]!;
+      next.simulateOpen();
+      next.simulateMessage({ type: 'connected', clientId: 'test' });
+      await vi.advanceTimersByTimeAsync(0);
+
+      // So does a going-away close
+      next.simulateClose(1001);
+      vi.advanceTimersByTime(0);
+      expect(mockWs.instances).toHaveLength(3);
+      expect(errorHandler).not.toHaveBeenCalled();
+    });
+
+    describe('retryInitialConnect', () => {
+      it('should keep retrying the first connect until it succeeds', async () => {
+        const manager = createManager({ retryInitialConnect: true, reconnectDelay: 100 });
+        const connected = vi.fn();
+
+        manager.connect().then(connected);
+        mockWs.instances[0]!.simulateClose(1006);
+        await vi.advanceTimersByTimeAsync(0);
+
+        expect(manager.state).toBe('reconnecting');
+        expect(connected).not.toHaveBeenCalled();
+
+        await vi.advanceTimersByTimeAsync(200);
+        const ws = mockWs.instances[1]!;
+        ws.simulateOpen();
+        ws.simulateMessage({ type: 'connected', clientId: 'test' });
+        await vi.advanceTimersByTimeAsync(0);
+
+        expect(connected).toHaveBeenCalledWith(expect.objectContaining({ clientId: 'test' }));
+        expect(manager.state).toBe('connected');
+      });
+
+      it('should reject with every attempt error once attempts run out', async () => {
+        const manager = createManager({ retryInitialConnect: true, maxReconnectAttempts: 2, reconnectDelay: 100 });
+
+        const result = manager.connect().catch((error: unknown) => error);
+        for (let attempt = 0; attempt < 3; attempt++) {
+          mockWs.instances[attempt]!.simulateClose(1006, `Attempt ${attempt}`);
+          await vi.advanceTimersByTimeAsync(1000);
+        }
+
+        const error = await result;
+        expect(error).toMatchObject({
+          code: 'MAX_RECONNECT_ATTEMPTS',
+          message: 'Max reconnection attempts exceeded: Connection failed: Attempt 2',
+        });
+        expect((error as ConnectionError).errors).toHaveLength(3);
+        expect(manager.state).toBe('failed');
+      });
+
+      it('should keep only the most recent attempt errors', async () => {
+        const manager = createManager({
+          retryInitialConnect: true,
+          maxReconnectAttempts: 12,
+          reconnectDelay: 100,
+          maxReconnectDelay: 100,
+        });
+
+        const result = manager.connect().catch((error: unknown) => error);
+        for (let attempt = 0; attempt < 13; attempt++) {
+          mockWs.instances[attempt]!.simulateClose(1006, `Attempt ${attempt}`);
+          await vi.advanceTimersByTimeAsync(1000);
+        }
+
+        const { errors } = (await result) as ConnectionError;
+        expect(errors).toHaveLength(DEFAULTS.MAX_ATTEMPT_ERRORS);
+        expect(errors![0]!.message).toBe('Connection failed: Attempt 3');
+        expect(errors![errors!.length - 1]!.message).toBe('Connection failed: Attempt 12');
+      });
+
+      it('should reject right away when the server refuses the connection', async () => {
+        const manager = createManager({ retryInitialConnect: true, reconnectDelay: 100 });
+
+        const result = manager.connect().catch((error: unknown) => error);
+        const ws = mockWs.instances[0]!;
+        ws.simulateOpen();
+        ws.simulateMessage({ type: 'error', code: 'UNAUTHORIZED', error: 'Invalid key' });
+
+        await expect(result).resolves.toMatchObject({ name: 'AuthenticationError', code: 'UNAUTHORIZED' });
+        await vi.advanceTimersByTimeAsync(60000);
+        expect(mockWs.instances).toHaveLength(1);
+      });
+
+      it('should reject when disconnected while retrying', async () => {
+        const manager = createManager({ retryInitialConnect: true, reconnectDelay: 100 });
+
+        const result = manager.connect().catch((error: unknown) => error);
+        mockWs.instances[0]!.simulateClose(1006);
+        await vi.advanceTimersByTimeAsync(0);
+        manager.disconnect();
+
+        await expect(result).resolves.toMatchObject({ message: 'Connection attempt cancelled' });
+        await vi.advanceTimersByTimeAsync(60000);
+        expect(mockWs.instances).toHaveLength(1);
+      });
+    });
+
+    describe('retryStrategy', () => {
+      it('should wait the delays chosen by the strategy', async () => {
+        const nextDelay = vi.fn().mockReturnValueOnce(5000).mockReturnValue(2000);
+        const manager = createManager({ retryStrategy: { nextDelay } });
+
+        const connectPromise = manager.connect();
+        const ws = mockWs.instances[0]!;
+        ws.simulateOpen();
+        ws.simulateMessage({ type: 'connected', clientId: 'test' });
+        await connectPromise;
+
+        ws.simulateClose(1006);
+        expect(manager.details.nextRetryAt).toBe(Date.now() + 5000);
+
+        await vi.advanceTimersByTimeAsync(4999);
+        expect(mockWs.instances).toHaveLength(1);
+        await vi.advanceTimersByTimeAsync(1);
+        expect(mockWs.instances).toHaveLength(2);
+
+        mockWs.instances[1]!.simulateClose(1006);
+        await vi.advanceTimersByTimeAsync(0);
+        expect(nextDelay).toHaveBeenLastCalledWith({
+          attempt: 1,
+          error: expect.objectContaining({ name: 'ConnectionError' }),
+          previousDelay: 5000,
+        });
+        expect(manager.details.nextRetryAt).toBe(Date.now() + 2000);
+      });
+
+      it('should fail when the strategy gives up', async () => {
+        const manager = createManager({ retryStrategy: { nextDelay: () => null } });
+        const errorHandler = vi.fn();
+        manager.on('error', errorHandler);
+
+        const connectPromise = manager.connect();
+        const ws = mockWs.instances[0]!;
+        ws.simulateOpen();
+        ws.simulateMessage({ type: 'connected', clientId: 'test' });
+        await connectPromise;
+
+        ws.simulateClose(1006);
+
+        expect(manager.state).toBe('failed');
+        expect(errorHandler).toHaveBeenCalledWith(expect.objectContaining({ code: 'MAX_RECONNECT_ATTEMPTS' }));
+        await vi.advanceTimersByTimeAsync(60000);
+        expect(mockWs.instances).toHaveLength(1);
+      });
+    });
+
+    it('should retry immediately with retryNow', async () => {
+      const manager = createManager({ reconnectDelay: 10000 });
+
+      const connectPromise = manager.connect();
+      const ws = mockWs.instances[0]!;
+      ws.simulateOpen();
+      ws.simulateMessage({ type: 'connected', clientId: 'test' });
+      await connectPromise;
+
+      ws.simulateClose(1006);
+      manager.retryNow();
+
+      expect(mockWs.instances).toHaveLength(2);
+      expect(manager.state).toBe('connecting');
+      expect(manager.details.attempt).toBe(1);
+
+      // The scheduled attempt was cancelled
+      vi.advanceTimersByTime(15000);
+      expect(mockWs.instances).toHaveLength(2);
+    });
   });
 
   describe('messages', () => {
@@ -312,6 +625,488 @@ describe('WebSocketManager', () => {
     });
   });
 
+  describe('token authentication', () => {
+    it('should connect with a token from the provider', async () => {
+      const tokenProvider = vi.fn().mockResolvedValue('tok_abc');
+      const manager = createManager({ apiKey: undefined, tokenProvider });
+
+      const connectPromise = manager.connect();
+      await vi.advanceTimersByTimeAsync(0);
+
+      const ws = mockWs.instances[0]!;
+      expect(ws.url).toBe('wss://api.pushflo.dev/ws?token=tok_abc');
+
+      ws.simulateOpen();
+      ws.simulateMessage({ type: 'connected', clientId: 'test' });
+      await connectPromise;
+
+      expect(tokenProvider).toHaveBeenCalledTimes(1);
+    });
+
+    it('should fetch a fresh token on reconnect', async () => {
+      const tokenProvider = vi.fn()
+        .mockResolvedValueOnce('tok_first')
+        .mockResolvedValueOnce('tok_second');
+      const manager = createManager({ tokenProvider, reconnectDelay: 100 });
+
+      const connectPromise = manager.connect();
+      await vi.advanceTimersByTimeAsync(0);
+      const ws1 = mockWs.instances[0]!;
+      ws1.simulateOpen();
+      ws1.simulateMessage({ type: 'connected', clientId: 'test' });
+      await connectPromise;
+
+      ws1.simulateClose(1006);
+      await vi.advanceTimersByTimeAsync(200);
+
+      expect(mockWs.instances[1]!.url).toContain('token=tok_second');
+    });
+
+    it('should reject when the token provider fails', async () => {
+      const tokenProvider = vi.fn().mockRejectedValue(new Error('backend down'));
+      const manager = createManager({ tokenProvider });
+      const errorHandler = vi.fn();
+      manager.on('error', errorHandler);
+
+      await expect(manager.connect()).rejects.toMatchObject({
+        name: 'AuthenticationError',
+        code: 'TOKEN_FETCH_FAILED',
+      });
+      expect(manager.state).toBe('error');
+      expect(errorHandler).toHaveBeenCalled();
+      expect(mockWs.instances.length).toBe(0);
+    });
+
+    it('should not open a socket if disconnected while fetching the token', async () => {
+      let resolveToken!: (token: string) => void;
+      const tokenProvider = vi.fn(() => new Promise<string>((resolve) => { resolveToken = resolve; }));
+      const manager = createManager({ tokenProvider });
+
+      const connectPromise = manager.connect();
+      manager.disconnect();
+      resolveToken('tok_late');
+
+      await expect(connectPromise).rejects.toThrow('cancelled');
+      expect(mockWs.instances.length).toBe(0);
+    });
+
+    it('should send a refreshed token before it expires', async () => {
+      const tokenProvider = vi.fn()
+        .mockResolvedValueOnce('tok_first')
+        .mockResolvedValueOnce('tok_refreshed');
+      const manager = createManager({ tokenProvider, heartbeatInterval: 600000 });
+
+      const connectPromise = manager.connect();
+      await vi.advanceTimersByTimeAsync(0);
+      const ws = mockWs.instances[0]!;
+      ws.simulateOpen();
+      ws.simulateMessage({ type: 'connected', clientId: 'test', expiresAt: Date.now() + 60000 });
+      const info = await connectPromise;
+      expect(info.expiresAt).toBeDefined();
+
+      // Refresh fires 30s before expiry
+      await vi.advanceTimersByTimeAsync(29000);
+      expect(tokenProvider).toHaveBeenCalledTimes(1);
+
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(ws.getSentMessages()).toContainEqual({ type: 'auth', token: 'tok_refreshed' });
+    });
+
+    it('should reschedule the refresh when the server acknowledges a new token', async () => {
+      const tokenProvider = vi.fn().mockResolvedValue('tok');
+      const manager = createManager({ tokenProvider, heartbeatInterval: 600000 });
+
+      const connectPromise = manager.connect();
+      await vi.advanceTimersByTimeAsync(0);
+      const ws = mockWs.instances[0]!;
+      ws.simulateOpen();
+      ws.simulateMessage({ type: 'connected', clientId: 'test', expiresAt: Date.now() + 30000 });
+      await connectPromise;
+
+      await vi.advanceTimersByTimeAsync(0);
+      expect(tokenProvider).toHaveBeenCalledTimes(2);
+
+      ws.simulateMessage({ type: 'authenticated', expiresAt: Date.now() + 90000 });
+      await vi.advanceTimersByTimeAsync(59000);
+      expect(tokenProvider).toHaveBeenCalledTimes(2);
+
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(tokenProvider).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  describe('custom WebSocket implementation', () => {
+    it('should connect with the given implementation instead of the global', async () => {
+      const instances: MockWebSocket[] = [];
+      const CustomWebSocket = vi.fn(function (url: string) {
+        const instance = new MockWebSocket(url);
+        instances.push(instance);
+        return instance;
+      }) as unknown as typeof MockWebSocket;
+      const manager = createManager({ WebSocket: CustomWebSocket });
+
+      const connectPromise = manager.connect();
+      const ws = instances[0]!;
+      ws.simulateOpen();
+      ws.simulateMessage({ type: 'connected', clientId: 'test' });
+      await connectPromise;
+
+      expect(mockWs.instances).toHaveLength(0);
+      expect(CustomWebSocket).toHaveBeenCalledWith(expect.stringContaining('token=pub_test123'));
+      expect(manager.send({ type: 'ping' })).toBe(true);
+      expect(ws.getSentMessages()).toEqual([{ type: 'ping' }]);
+    });
+
+    it('should pass handshake options to the implementation', () => {
+      const CustomWebSocket = vi.fn(function (url: string) {
+        return new MockWebSocket(url);
+      }) as unknown as typeof MockWebSocket;
+      const agent = {};
+      const manager = createManager({
+        WebSocket: CustomWebSocket,
+        webSocketOptions: {
+          protocols: ['pushflo'],
+          headers: { 'X-Worker': 'billing' },
+          agent,
+          rejectUnauthorized: false,
+        },
+      });
+
+      manager.connect().catch(() => {});
+
+      expect(CustomWebSocket).toHaveBeenCalledWith(
+        expect.any(String),
+        ['pushflo'],
+        { headers: { 'X-Worker': 'billing' }, agent, rejectUnauthorized: false }
+      );
+    });
+
+    it('should fail to connect without any implementation', async () => {
+      mockWs.restore();
+      const originalWebSocket = globalThis.WebSocket;
+      // @ts-expect-error simulate a runtime without a global WebSocket
+      delete globalThis.WebSocket;
+
+      try {
+        const manager = createManager();
+        await expect(manager.connect()).rejects.toThrow('No WebSocket implementation available');
+      } finally {
+        globalThis.WebSocket = originalWebSocket;
+      }
+    });
+  });
+
+  describe('SSE fallback', () => {
+    beforeEach(() => {
+      MockEventSource.reset();
+    });
+
+    const failWebSocketAttempt = async (manager: WebSocketManager) => {
+      const connectPromise = manager.connect();
+      mockWs.instances[mockWs.instances.length - 1]!.simulateClose(1006, 'Upgrade failed');
+      await expect(connectPromise).rejects.toThrow();
+    };
+
+    const connectSse = async (manager: WebSocketManager) => {
+      const connectPromise = manager.connect();
+      const source = MockEventSource.instances[MockEventSource.instances.length - 1]!;
+      source.simulateOpen();
+      source.simulateMessage({ type: 'connected', clientId: 'client-1' });
+      return { info: await connectPromise, source };
+    };
+
+    it('should report the WebSocket transport by default', async () => {
+      const manager = createManager({ EventSource: MockEventSource });
+
+      const connectPromise = manager.connect();
+      mockWs.instances[0]!.simulateOpen();
+      mockWs.instances[0]!.simulateMessage({ type: 'connected', clientId: 'client-1' });
+
+      expect((await connectPromise).transport).toBe('websocket');
+    });
+
+    it('should switch to SSE after repeated upgrade failures', async () => {
+      const manager = createManager({ EventSource: MockEventSource, baseUrl: 'https://api.example.com' });
+
+      await failWebSocketAttempt(manager);
+      await failWebSocketAttempt(manager);
+      const { info, source } = await connectSse(manager);
+
+      expect(mockWs.instances).toHaveLength(2);
+      expect(source.url).toBe('https://api.example.com/sse?token=pub_test123');
+      expect(info.transport).toBe('sse');
+      expect(manager.state).toBe('connected');
+    });
+
+    it('should keep using WebSocket when the transport is pinned', async () => {
+      const manager = createManager({ EventSource: MockEventSource, transport: 'websocket' });
+
+      await failWebSocketAttempt(manager);
+      await failWebSocketAttempt(manager);
+      manager.connect().catch(() => {});
+
+      expect(mockWs.instances).toHaveLength(3);
+      expect(MockEventSource.instances).toHaveLength(0);
+    });
+
+    it('should not fall back without an EventSource implementation', async () => {
+      const manager = createManager();
+
+      await failWebSocketAttempt(manager);
+      await failWebSocketAttempt(manager);
+      manager.connect().catch(() => {});
+
+      expect(mockWs.instances).toHaveLength(3);
+    });
+
+    it('should connect over SSE directly and send frames over HTTP', async () => {
+      const mockFetch = vi.fn().mockResolvedValue({ ok: true, status: 200 });
+      vi.stubGlobal('fetch', mockFetch);
+      try {
+        const manager = createManager({
+          EventSource: MockEventSource,
+          transport: 'sse',
+          baseUrl: 'https://api.example.com',
+        });
+        const { info } = await connectSse(manager);
+
+        expect(info.transport).toBe('sse');
+        expect(manager.subscribe('orders')).toBe(true);
+        await vi.waitFor(() => expect(mockFetch).toHaveBeenCalled());
+        expect(mockFetch).toHaveBeenCalledWith('https://api.example.com/sse/client-1', expect.objectContaining({
+          body: JSON.stringify({ type: 'subscribe', channel: 'orders' }),
+        }));
+      } finally {
+        vi.unstubAllGlobals();
+      }
+    });
+  });
+
+  describe('codecs', () => {
+    const toArrayBuffer = (frame: unknown) => new Uint8Array(encodeMsgPack(frame)).buffer;
+
+    it('should not offer a codec for JSON', () => {
+      const manager = createManager();
+      manager.connect().catch(() => {});
+
+      expect(mockWs.instances[0]!.url).not.toContain('codec=');
+    });
+
+    it('should offer MessagePack and use it once the server accepts', async () => {
+      const manager = createManager({ codec: msgpackCodec });
+      const onMessage = vi.fn();
+      manager.on('message', onMessage);
+
+      const connectPromise = manager.connect();
+      const ws = mockWs.instances[0]!;
+      expect(ws.url).toContain('&codec=msgpack');
+      expect(ws.binaryType).toBe('arraybuffer');
+
+      ws.simulateOpen();
+      ws.simulateBinaryMessage(toArrayBuffer({ type: 'connected', clientId: 'test', codec: 'msgpack' }));
+      await connectPromise;
+
+      manager.subscribe('telemetry');
+      expect(decodeMsgPack(ws.sentMessages[0] as Uint8Array)).toEqual({ type: 'subscribe', channel: 'telemetry' });
+
+      ws.simulateBinaryMessage(toArrayBuffer({ type: 'message', channel: 'telemetry', data: { samples: [1.5, 2] } }));
+      expect(onMessage).toHaveBeenCalledWith({ type: 'message', channel: 'telemetry', data: { samples: [1.5, 2] } });
+    });
+
+    it('should fall back to JSON when the server does not accept the codec', async () => {
+      const manager = createManager({ codec: msgpackCodec });
+
+      const connectPromise = manager.connect();
+      const ws = mockWs.instances[0]!;
+      ws.simulateOpen();
+      ws.simulateMessage({ type: 'connected', clientId: 'test' });
+      await connectPromise;
+
+      manager.subscribe('telemetry');
+      expect(ws.getSentMessages()).toEqual([{ type: 'subscribe', channel: 'telemetry' }]);
+    });
+
+    it('should keep frame order when a Blob frame is being read', async () => {
+      const manager = createManager({ codec: msgpackCodec });
+      const received: unknown[] = [];
+      manager.on('message', (message) => received.push(message.channel));
+
+      const connectPromise = manager.connect();
+      const ws = mockWs.instances[0]!;
+      ws.simulateOpen();
+      ws.simulateMessage({ type: 'connected', clientId: 'test', codec: 'msgpack' });
+      await connectPromise;
+
+      ws.simulateBinaryMessage(new Blob([toArrayBuffer({ type: 'message', channel: 'first' })]));
+      ws.simulateMessage({ type: 'message', channel: 'second' });
+      expect(received).toEqual([]);
+
+      await vi.waitFor(() => expect(received).toEqual(['first', 'second']));
+    });
+  });
+
+  describe('network and visibility', () => {
+    const connectManager = async (options = {}) => {
+      const networkStatus = new MockNetworkStatus();
+      const manager = createManager({ networkStatus, reconnectDelay: 1000, ...options });
+      const connectPromise = manager.connect();
+      const ws = mockWs.instances[mockWs.instances.length - 1]!;
+      ws.simulateOpen();
+      ws.simulateMessage({ type: 'connected', clientId: 'test' });
+      await connectPromise;
+      return { manager, networkStatus, ws };
+    };
+
+    it('should disconnect when offline and reconnect as soon as the network returns', async () => {
+      const { manager, networkStatus } = await connectManager();
+      const events: string[] = [];
+      manager.on('offline', () => events.push('offline'));
+      manager.on('online', () => events.push('online'));
+      manager.on('disconnected', (reason) => events.push(`disconnected: ${reason}`));
+
+      networkStatus.setOnline(false);
+      expect(manager.state).toBe('reconnecting');
+      expect(manager.details.nextRetryAt).toBeNull();
+
+      // No reconnect attempts while offline
+      vi.advanceTimersByTime(60000);
+      expect(mockWs.instances).toHaveLength(1);
+
+      networkStatus.setOnline(true);
+      expect(mockWs.instances).toHaveLength(2);
+      expect(events).toEqual(['offline', 'disconnected: Network offline', 'online']);
+    });
+
+    it('should pause backoff retries while offline', async () => {
+      const { networkStatus, ws } = await connectManager();
+
+      ws.simulateClose(1006);
+      networkStatus.setOnline(false);
+      vi.advanceTimersByTime(60000);
+      expect(mockWs.instances).toHaveLength(1);
+
+      networkStatus.setOnline(true);
+      expect(mockWs.instances).toHaveLength(2);
+    });
+
+    it('should disconnect hidden pages after the delay and reconnect when visible', async () => {
+      const { manager, networkStatus } = await connectManager({ hiddenDisconnectDelay: 5000 });
+      const disconnected = vi.fn();
+      manager.on('disconnected', disconnected);
+
+      networkStatus.setVisible(false);
+      vi.advanceTimersByTime(4000);
+      networkStatus.setVisible(true);
+      networkStatus.setVisible(false);
+      vi.advanceTimersByTime(4000);
+      expect(manager.state).toBe('connected');
+
+      vi.advanceTimersByTime(1000);
+      expect(manager.state).toBe('disconnected');
+      expect(disconnected).toHaveBeenCalledWith('Page hidden');
+
+      // Coming back online while still hidden does not reconnect
+      networkStatus.setOnline(false);
+      networkStatus.setOnline(true);
+      expect(mockWs.instances).toHaveLength(1);
+
+      networkStatus.setVisible(true);
+      expect(mockWs.instances).toHaveLength(2);
+    });
+
+    it('should stay connected while hidden by default', async () => {
+      const { manager, networkStatus } = await connectManager({ heartbeatInterval: 600000 });
+      const disconnected = vi.fn();
+      manager.on('disconnected', disconnected);
+
+      networkStatus.setVisible(false);
+      vi.advanceTimersByTime(300000);
+
+      expect(manager.state).toBe('connected');
+      expect(disconnected).not.toHaveBeenCalled();
+    });
+
+    it('should not resume after an intentional disconnect', async () => {
+      const { manager, networkStatus } = await connectManager();
+
+      networkStatus.setOnline(false);
+      manager.disconnect();
+      networkStatus.setOnline(true);
+
+      expect(mockWs.instances).toHaveLength(1);
+    });
+
+    it('should stop listening on destroy', async () => {
+      const { manager, networkStatus } = await connectManager();
+
+      manager.destroy();
+
+      expect(networkStatus.listenerCount).toBe(0);
+    });
+  });
+
+  describe('latency', () => {
+    const connectManager = async (options = {}) => {
+      const manager = createManager({ heartbeatInterval: 1000, ...options });
+      const connectPromise = manager.connect();
+      const ws = mockWs.instances[0]!;
+      ws.simulateOpen();
+      ws.simulateMessage({ type: 'connected', clientId: 'test', timestamp: Date.now() + 5000 });
+      await connectPromise;
+      return { manager, ws };
+    };
+
+    it('should measure the round-trip time of each ping', async () => {
+      const { manager, ws } = await connectManager();
+      expect(manager.getLatency().last).toBeNull();
+
+      vi.advanceTimersByTime(1000);
+      vi.advanceTimersByTime(80);
+      ws.simulateMessage({ type: 'pong' });
+
+      vi.advanceTimersByTime(1000);
+      vi.advanceTimersByTime(120);
+      ws.simulateMessage({ type: 'pong' });
+
+      expect(manager.getLatency()).toMatchObject({ last: 120, average: 100, p95: 120, samples: 2 });
+      expect(manager.quality).toBe('good');
+    });
+
+    it('should estimate the server clock offset', async () => {
+      const { manager, ws } = await connectManager();
+      expect(manager.getLatency().clockOffset).toBe(5000);
+
+      // Pong stamped by the server halfway through a 100ms round trip
+      vi.advanceTimersByTime(1000);
+      vi.advanceTimersByTime(100);
+      ws.simulateMessage({ type: 'pong', timestamp: Date.now() - 50 + 3000 });
+
+      expect(manager.getLatency().clockOffset).toBe(3000);
+    });
+
+    it('should report quality changes from slow and late pongs', async () => {
+      const { manager, ws } = await connectManager({
+        heartbeatInterval: 5000,
+        latencyThresholds: { degraded: 200, poor: 1000 },
+      });
+      const qualityHandler = vi.fn();
+      manager.on('qualityChange', qualityHandler);
+
+      vi.advanceTimersByTime(5000);
+      vi.advanceTimersByTime(400);
+      ws.simulateMessage({ type: 'pong' });
+      expect(manager.quality).toBe('degraded');
+
+      // Pong overdue past the poor threshold, before the heartbeat times out
+      vi.advanceTimersByTime(5000);
+      vi.advanceTimersByTime(1000);
+      expect(manager.quality).toBe('poor');
+      expect(manager.state).toBe('connected');
+
+      expect(qualityHandler.mock.calls).toEqual([['degraded'], ['poor']]);
+    });
+  });
+
   describe('destroy', () => {
     it('should clean up all resources', async () => {
       const manager = createManager();
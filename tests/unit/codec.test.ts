@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import { encodeMsgPack, decodeMsgPack } from '../../src/utils/msgpack.js';
+import { jsonCodec, msgpackCodec, resolveCodec } from '../../src/utils/codec.js';
+
+const bytes = (...values: number[]) => new Uint8Array(values);
+
+describe('encodeMsgPack', () => {
+  it('should use the smallest encoding for integers', () => {
+    expect(encodeMsgPack(5)).toEqual(bytes(0x05));
+    expect(encodeMsgPack(-3)).toEqual(bytes(0xfd));
+    expect(encodeMsgPack(200)).toEqual(bytes(0xcc, 200));
+    expect(encodeMsgPack(-200)).toEqual(bytes(0xd1, 0xff, 0x38));
+    expect(encodeMsgPack(70000)).toEqual(bytes(0xce, 0x00, 0x01, 0x11, 0x70));
+  });
+
+  it('should encode floats as float64', () => {
+    expect(encodeMsgPack(1.5)).toEqual(bytes(0xcb, 0x3f, 0xf8, 0, 0, 0, 0, 0, 0));
+  });
+
+  it('should encode short strings, arrays and maps in fixed form', () => {
+    expect(encodeMsgPack('hi')).toEqual(bytes(0xa2, 0x68, 0x69));
+    expect(encodeMsgPack([true, null])).toEqual(bytes(0x92, 0xc3, 0xc0));
+    expect(encodeMsgPack({ a: 1 })).toEqual(bytes(0x81, 0xa1, 0x61, 0x01));
+  });
+
+  it('should drop undefined map values like JSON', () => {
+    expect(encodeMsgPack({ a: undefined, b: 1 })).toEqual(encodeMsgPack({ b: 1 }));
+  });
+});
+
+describe('decodeMsgPack', () => {
+  it('should round-trip JSON-like values', () => {
+    const value = {
+      type: 'message',
+      channel: 'telemetry',
+      sequence: 4294967296,
+      data: {
+        samples: [0, -1, 127, -129, 65536, 3.25, -2.5e-8],
+        label: 'é'.repeat(40),
+        nested: { ok: true, missing: null },
+      },
+    };
+
+    expect(decodeMsgPack(encodeMsgPack(value))).toEqual(value);
+  });
+
+  it('should round-trip binary values and large collections', () => {
+    const blob = new Uint8Array(300).map((_, i) => i % 256);
+    const list = Array.from({ length: 70000 }, (_, i) => i);
+
+    const decoded = decodeMsgPack(encodeMsgPack({ blob, list })) as { blob: Uint8Array; list: number[] };
+
+    expect(decoded.blob).toEqual(blob);
+    expect(decoded.list).toEqual(list);
+  });
+
+  it('should encode typed arrays as number arrays', () => {
+    expect(decodeMsgPack(encodeMsgPack(new Float64Array([1.5, 2])))).toEqual([1.5, 2]);
+  });
+
+  it('should not let a __proto__ key replace the prototype', () => {
+    const decoded = decodeMsgPack(bytes(0x81, 0xa9, ...new TextEncoder().encode('__proto__'), 0x01)) as object;
+
+    expect(Object.getPrototypeOf(decoded)).toBe(Object.prototype);
+    expect(Object.keys(decoded)).toEqual(['__proto__']);
+  });
+
+  it('should reject truncated and unsupported data', () => {
+    expect(() => decodeMsgPack(bytes(0xa3, 0x61))).toThrow('Unexpected end');
+    expect(() => decodeMsgPack(bytes(0xd4, 0x01, 0x00))).toThrow('Unsupported MessagePack type');
+    expect(() => decodeMsgPack(bytes(0x01, 0x02))).toThrow('trailing');
+  });
+});
+
+describe('codecs', () => {
+  it('should encode JSON as text and decode text or bytes', () => {
+    expect(jsonCodec.encode({ a: 1 })).toBe('{"a":1}');
+    expect(jsonCodec.decode('{"a":1}')).toEqual({ a: 1 });
+    expect(jsonCodec.decode(new TextEncoder().encode('{"a":1}'))).toEqual({ a: 1 });
+  });
+
+  it('should read text frames as JSON with the MessagePack codec', () => {
+    expect(msgpackCodec.decode('{"type":"pong"}')).toEqual({ type: 'pong' });
+    expect(msgpackCodec.decode(msgpackCodec.encode({ type: 'pong' }) as Uint8Array)).toEqual({ type: 'pong' });
+  });
+
+  it('should resolve codec names', () => {
+    const custom = { name: 'custom', encode: () => '', decode: () => null };
+
+    expect(resolveCodec(undefined)).toBe(jsonCodec);
+    expect(resolveCodec('msgpack')).toBe(msgpackCodec);
+    expect(resolveCodec(custom)).toBe(custom);
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import {
+  encryptContent,
+  decryptMessage,
+  getEncryptedEnvelope,
+  ENCRYPTED_CONTENT_KEY,
+} from '../../src/utils/encryption.js';
+import { DecryptionError } from '../../src/errors/DecryptionError.js';
+import type { Message } from '../../src/types/message.js';
+
+// 256-bit keys, base64-encoded
+const KEY_A = { id: 'key-a', key: btoa(String.fromCharCode(...new Uint8Array(32).fill(1))) };
+const KEY_B = { id: 'key-b', key: btoa(String.fromCharCode(...new Uint8Array(32).fill(2))) };
+
+const createMessage = (content: Record<string, unknown>): Message => ({
+  id: 'msg-1',
+  channel: 'health',
+  eventType: 'message',
+  clientId: 'client-1',
+  content,
+  timestamp: Date.now(),
+});
+
+describe('encryption', () => {
+  it('should wrap content in an envelope without the plaintext', async () => {
+    const content = await encryptContent({ heartRate: 72 }, KEY_A);
+    const envelope = getEncryptedEnvelope(content);
+
+    expect(Object.keys(content)).toEqual([ENCRYPTED_CONTENT_KEY]);
+    expect(envelope).toMatchObject({ alg: 'AES-GCM', keyId: 'key-a' });
+    expect(JSON.stringify(content)).not.toContain('heartRate');
+  });
+
+  it('should use a fresh IV for every message', async () => {
+    const first = getEncryptedEnvelope(await encryptContent({ a: 1 }, KEY_A));
+    const second = getEncryptedEnvelope(await encryptContent({ a: 1 }, KEY_A));
+
+    expect(first!.iv).not.toBe(second!.iv);
+  });
+
+  it('should decrypt with the key matching the envelope', async () => {
+    const content = await encryptContent({ heartRate: 72 }, KEY_B);
+
+    const message = await decryptMessage(createMessage(content), [KEY_A, KEY_B]);
+
+    expect(message.content).toEqual({ heartRate: 72 });
+    expect(message.id).toBe('msg-1');
+  });
+
+  it('should accept CryptoKey instances', async () => {
+    const cryptoKey = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']);
+    const key = { id: 'generated', key: cryptoKey };
+
+    const message = await decryptMessage(createMessage(await encryptContent({ ok: true }, key)), key);
+
+    expect(message.content).toEqual({ ok: true });
+  });
+
+  it('should reject unencrypted messages', async () => {
+    const error = await decryptMessage(createMessage({ plain: true }), KEY_A).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(DecryptionError);
+    expect(error).toMatchObject({ code: 'MESSAGE_NOT_ENCRYPTED', messageId: 'msg-1' });
+  });
+
+  it('should pass unencrypted messages through when allowed', async () => {
+    const message = createMessage({ plain: true });
+
+    expect(await decryptMessage(message, KEY_A, { allowUnencrypted: true })).toBe(message);
+  });
+
+  it('should reject envelopes with an unknown key ID', async () => {
+    const content = await encryptContent({ heartRate: 72 }, KEY_B);
+
+    const error = await decryptMessage(createMessage(content), KEY_A).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(DecryptionError);
+    expect(error).toMatchObject({ code: 'DECRYPTION_KEY_NOT_FOUND', keyId: 'key-b', messageId: 'msg-1' });
+  });
+
+  it('should reject content that fails authentication', async () => {
+    const content = await encryptContent({ heartRate: 72 }, KEY_A);
+
+    // Same key ID, different key material
+    const error = await decryptMessage(createMessage(content), { id: 'key-a', key: KEY_B.key }).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(DecryptionError);
+    expect(error).toMatchObject({ code: 'DECRYPTION_FAILED', keyId: 'key-a' });
+  });
+});
@@ -3,6 +3,7 @@ import { PushFloError } from '../../src/errors/PushFloError.js';
 import { ConnectionError } from '../../src/errors/ConnectionError.js';
 import { AuthenticationError } from '../../src/errors/AuthenticationError.js';
 import { NetworkError } from '../../src/errors/NetworkError.js';
+import { DecryptionError } from '../../src/errors/DecryptionError.js';
 
 describe('PushFloError', () => {
   it('should create error with message and code', () => {
@@ -72,6 +73,38 @@ describe('ConnectionError', () => {
     expect(error.message).toBe('Connection failed: Could not connect');
     expect(error.cause).toBe(cause);
   });
+
+  it('should map close codes to reconnect policies', () => {
+    expect(ConnectionError.fromCloseCode(4001, 'Key revoked')).toMatchObject({
+      message: 'Connection unauthorized: Key revoked',
+      code: 'UNAUTHORIZED',
+      retryable: false,
+      closeCode: 4001,
+    });
+    expect(ConnectionError.fromCloseCode(4003)).toMatchObject({ code: 'FORBIDDEN', retryable: false });
+    expect(ConnectionError.fromCloseCode(1001)).toMatchObject({ code: 'SERVER_GOING_AWAY', retryAfter: 0 });
+    expect(ConnectionError.fromCloseCode(4002)).toMatchObject({ code: 'TOKEN_EXPIRED', retryAfter: 0 });
+    expect(ConnectionError.fromCloseCode(4029, undefined, 30000)).toMatchObject({
+      code: 'RATE_LIMITED',
+      retryable: true,
+      retryAfter: 30000,
+    });
+
+    const closed = ConnectionError.fromCloseCode(1006);
+    expect(closed).toMatchObject({ code: 'CONNECTION_CLOSED', retryable: true, closeCode: 1006 });
+    expect(closed.retryAfter).toBeUndefined();
+  });
+
+  it('should aggregate the errors of exhausted attempts', () => {
+    const errors = [new Error('Timed out'), new Error('Refused')];
+    const error = ConnectionError.attemptsExhausted(errors);
+
+    expect(error.message).toBe('Max reconnection attempts exceeded: Refused');
+    expect(error.code).toBe('MAX_RECONNECT_ATTEMPTS');
+    expect(error.retryable).toBe(false);
+    expect(error.cause).toBe(errors[1]);
+    expect(error.errors).toEqual(errors);
+  });
 });
 
 describe('AuthenticationError', () => {
@@ -148,3 +181,21 @@ describe('NetworkError', () => {
     expect(json.statusCode).toBe(503);
   });
 });
+
+describe('DecryptionError', () => {
+  it('should create decryption error', () => {
+    const error = new DecryptionError('Bad tag', undefined, { messageId: 'msg-1', keyId: 'key-1' });
+
+    expect(error.name).toBe('DecryptionError');
+    expect(error.code).toBe('DECRYPTION_FAILED');
+    expect(error.retryable).toBe(false);
+    expect(error.toJSON()).toMatchObject({ messageId: 'msg-1', keyId: 'key-1' });
+  });
+
+  it('should create unknown key error', () => {
+    const error = DecryptionError.unknownKey('key-2', 'msg-1');
+
+    expect(error.message).toBe("No decryption key with ID 'key-2'");
+    expect(error.code).toBe('DECRYPTION_KEY_NOT_FOUND');
+  });
+});
@@ -118,6 +118,30 @@ describe('React Integration', () => {
       const ws = mockWs.instances[0]!;
       expect(ws.url).toContain('custom.pushflo.dev');
     });
+
+    it('should pass a custom WebSocket implementation to client', async () => {
+      const urls: string[] = [];
+      const BaseWebSocket = globalThis.WebSocket;
+      class TrackingWebSocket extends BaseWebSocket {
+        constructor(url: string | URL, protocols?: string | string[]) {
+          super(url, protocols);
+          urls.push(String(url));
+        }
+      }
+
+      render(
+        <PushFloProvider publishKey="pub_test" WebSocket={TrackingWebSocket} autoConnect={true}>
+          <TestUsePushFlo />
+        </PushFloProvider>
+      );
+
+      await act(async () => {
+        vi.advanceTimersByTime(10);
+      });
+
+      expect(urls).toHaveLength(1);
+      expect(urls[0]).toContain('pub_test');
+    });
   });
 
   describe('usePushFlo', () => {
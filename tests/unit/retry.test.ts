@@ -1,5 +1,13 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { retry, calculateBackoff, sleep } from '../../src/utils/retry.js';
+import {
+  retry,
+  calculateBackoff,
+  sleep,
+  exponentialBackoff,
+  decorrelatedJitter,
+  fixedDelay,
+  fibonacciBackoff,
+} from '../../src/utils/retry.js';
 
 describe('calculateBackoff', () => {
   it('should return initial delay for first attempt', () => {
@@ -35,6 +43,54 @@ describe('calculateBackoff', () => {
   });
 });
 
+describe('retry strategies', () => {
+  const delays = (strategy: ReturnType<typeof fixedDelay>, count: number) => {
+    const result: Array<number | null> = [];
+    let previousDelay: number | null = null;
+    for (let attempt = 0; attempt < count; attempt++) {
+      const delay = strategy.nextDelay({ attempt, previousDelay });
+      result.push(delay);
+      previousDelay = delay;
+    }
+    return result;
+  };
+
+  it('should back off exponentially without jitter', () => {
+    const strategy = exponentialBackoff({ initialDelay: 100, maxDelay: 1000, multiplier: 2, jitter: 0 });
+
+    expect(delays(strategy, 6)).toEqual([100, 200, 400, 800, 1000, 1000]);
+  });
+
+  it('should grow decorrelated jitter from the previous delay within bounds', () => {
+    const strategy = decorrelatedJitter({ initialDelay: 100, maxDelay: 5000 });
+
+    let previousDelay: number | null = null;
+    for (let attempt = 0; attempt < 20; attempt++) {
+      const delay: number = strategy.nextDelay({ attempt, previousDelay })!;
+      expect(delay).toBeGreaterThanOrEqual(100);
+      expect(delay).toBeLessThanOrEqual(Math.min(5000, (previousDelay ?? 100) * 3));
+      previousDelay = delay;
+    }
+  });
+
+  it('should wait the same delay every time', () => {
+    expect(delays(fixedDelay(250), 3)).toEqual([250, 250, 250]);
+  });
+
+  it('should follow the Fibonacci sequence up to the maximum delay', () => {
+    const strategy = fibonacciBackoff({ initialDelay: 100, maxDelay: 1000 });
+
+    expect(delays(strategy, 8)).toEqual([100, 100, 200, 300, 500, 800, 1000, 1000]);
+  });
+
+  it('should give up after maxAttempts', () => {
+    expect(delays(fixedDelay(250, { maxAttempts: 2 }), 3)).toEqual([250, 250, null]);
+    expect(delays(fibonacciBackoff({ maxAttempts: 1 }), 2)[1]).toBeNull();
+    expect(delays(decorrelatedJitter({ maxAttempts: 1 }), 2)[1]).toBeNull();
+    expect(delays(exponentialBackoff({ maxAttempts: 1 }), 2)[1]).toBeNull();
+  });
+});
+
 describe('sleep', () => {
   beforeEach(() => {
     vi.useFakeTimers();
@@ -161,6 +217,35 @@ describe('retry', () => {
     expect(onRetry).toHaveBeenCalledWith(1, expect.any(Number), expect.any(Error));
   });
 
+  it('should wait the delays chosen by the strategy', async () => {
+    const fn = vi.fn()
+      .mockRejectedValueOnce(new Error('fail'))
+      .mockRejectedValueOnce(new Error('fail'))
+      .mockResolvedValue('success');
+    const onRetry = vi.fn();
+
+    const promise = retry(fn, { maxAttempts: 3, strategy: fixedDelay(500), onRetry });
+
+    await vi.advanceTimersByTimeAsync(499);
+    expect(fn).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(501);
+
+    await expect(promise).resolves.toBe('success');
+    expect(onRetry.mock.calls.map(([, delay]) => delay)).toEqual([500, 500]);
+  });
+
+  it('should stop retrying when the strategy gives up', async () => {
+    const fn = vi.fn().mockRejectedValue(new Error('always fails'));
+
+    const promise = retry(fn, { maxAttempts: 5, strategy: fixedDelay(100, { maxAttempts: 1 }) });
+    const assertion = expect(promise).rejects.toThrow('always fails');
+
+    await vi.advanceTimersByTimeAsync(1000);
+
+    await assertion;
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
   it('should abort with signal', async () => {
     const controller = new AbortController();
     const fn = vi.fn().mockRejectedValue(new Error('fail'));